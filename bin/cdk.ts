@@ -4,6 +4,7 @@ import { DomainStack } from "../lib/domain-stack";
 import { QuoteRequestStack } from "../lib/quote-request-stack";
 import { AmplifyStack } from "../lib/amplify-stack";
 import env from "../lib/env";
+import { stageDomainName, stageStackId } from "../lib/stage";
 
 const app = new cdk.App();
 
@@ -12,29 +13,58 @@ const cdkEnv = {
 	region: env.CDK_DEFAULT_REGION,
 };
 
-const domainStack = new DomainStack(app, "AsDistributorsDomain", {
-	env: cdkEnv,
-	description: "AS Distributors Route 53 hosted zone and ACM certificate",
-	domainName: env.DOMAIN_NAME,
-});
+const stage = env.STAGE;
+const domainName = stageDomainName(stage, env.DOMAIN_NAME);
+const descriptionSuffix = stage === "prod" ? "" : ` (${stage})`;
 
-const quoteRequestStack = new QuoteRequestStack(app, "AsDistributorsQuoteRequest", {
+const domainStack = new DomainStack(app, stageStackId(stage, "AsDistributorsDomain"), {
 	env: cdkEnv,
-	description: "AS Distributors quote request stack",
-	saleRepEmailMap: env.SALE_REP_EMAIL_MAP,
-	allowedOrigins: env.ALLOWED_ORIGINS,
-	hostedZone: domainStack.hostedZone,
+	description: `AS Distributors Route 53 hosted zone and ACM certificate${descriptionSuffix}`,
+	hostedZoneName: env.DOMAIN_NAME,
+	domainName,
 });
 
+const quoteRequestStack = new QuoteRequestStack(
+	app,
+	stageStackId(stage, "AsDistributorsQuoteRequest"),
+	{
+		env: cdkEnv,
+		description: `AS Distributors quote request stack${descriptionSuffix}`,
+		stage,
+		salesRepRegistryParameterName: env.SALES_REP_REGISTRY_PARAMETER,
+		allowedOrigins: env.ALLOWED_ORIGINS,
+		captcha: env.CAPTCHA,
+		catalogUrl: env.CATALOG_URL,
+		repEmailSandbox: env.REP_EMAIL_SANDBOX,
+		legacyRepEmailIdentities: env.LEGACY_REP_EMAIL_IDENTITIES,
+		emailProcessing: env.EMAIL_PROCESSING,
+		logPiiPolicy: env.LOG_PII_POLICY,
+		quoteExport: env.QUOTE_EXPORT,
+		alarmEmails: env.ALARM_EMAILS,
+		chatNotifications: env.CHAT_NOTIFICATIONS,
+		hostedZone: domainStack.hostedZone,
+		certificate: domainStack.certificate,
+		domainName,
+	}
+);
+
 quoteRequestStack.addDependency(domainStack);
 
-new AmplifyStack(app, "AsDistributorsAmplify", {
+const amplifyStack = new AmplifyStack(app, stageStackId(stage, "AsDistributorsAmplify"), {
 	env: cdkEnv,
-	description: "AS Distributors Amplify frontend stack",
-	githubToken: cdk.SecretValue.unsafePlainText(env.GITHUB_TOKEN),
+	description: `AS Distributors Amplify frontend stack${descriptionSuffix}`,
+	stage,
+	githubToken: cdk.SecretValue.secretsManager(env.GITHUB_TOKEN_SECRET_NAME),
 	githubOwner: env.GITHUB_OWNER,
 	githubRepo: env.GITHUB_REPO,
 	githubBranch: env.GITHUB_BRANCH,
 	quoteApiUrl: quoteRequestStack.apiUrl,
-	domainName: env.DOMAIN_NAME,
+	domainName,
+	additionalBranches: env.AMPLIFY_BRANCHES,
+	previews: env.AMPLIFY_PREVIEWS,
+	captchaProvider: env.CAPTCHA?.provider,
+	legacyRedirects: env.LEGACY_REDIRECTS,
 });
+
+// The API URL is a plain string, so deploy the API before the website that calls it
+amplifyStack.addDependency(quoteRequestStack);
@@ -0,0 +1,309 @@
+import type {
+	APIGatewayProxyEventV2WithJWTAuthorizer,
+	APIGatewayProxyResultV2,
+	APIGatewayProxyStructuredResultV2,
+} from "aws-lambda";
+import { randomUUID } from "node:crypto";
+import { createLogger, type Logger } from "./logger";
+import {
+	decodeCursor,
+	getQuote,
+	listQuotes,
+	QUOTE_STATUS_TRANSITIONS,
+	QUOTE_STATUSES,
+	type QuoteChange,
+	type QuoteListFilter,
+	type QuoteRecord,
+	type QuoteStatus,
+	updateQuote,
+} from "./quote-store";
+import { createParameterLoader } from "./runtime-config";
+import { parseSalesRepRegistry, type SalesRepRegistry } from "./sales-reps";
+import { CORRELATION_ID_HEADER } from "./types";
+
+function getRequiredEnv(key: string): string {
+	const value = process.env[key];
+	if (!value) {
+		throw new Error(`Missing required environment variable: ${key}`);
+	}
+	return value;
+}
+
+/**
+ * Read from SSM at runtime, so reps added without a deploy can be assigned quotes
+ */
+const SALES_REP_REGISTRY_LOADER = createParameterLoader(
+	getRequiredEnv("SALES_REP_REGISTRY_PARAMETER"),
+	parseSalesRepRegistry,
+	(error) =>
+		createLogger().error("Error refreshing the sales rep registry, using the cached copy", {
+			error,
+		})
+);
+
+export const ADMIN_ROUTES = {
+	listQuotes: "GET /admin/quotes",
+	getQuote: "GET /admin/quotes/{id}",
+	updateQuote: "PATCH /admin/quotes/{id}",
+} as const;
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * The row shown for a quote in lists. GET /admin/quotes/{id} returns the full record.
+ */
+export interface QuoteSummary {
+	quoteId: string;
+	createdAt: string;
+	status: QuoteStatus;
+	assignedRep?: string;
+	salesRep: string;
+	customerName: string;
+	companyName: string;
+	zipCode: string;
+	totalItems: number;
+	totalUniqueProducts: number;
+}
+
+export interface QuoteUpdateRequest {
+	status?: QuoteStatus;
+	assignedRep?: string;
+}
+
+class AdminApiError extends Error {
+	constructor(
+		readonly statusCode: number,
+		message: string
+	) {
+		super(message);
+	}
+}
+
+function jsonResponse(statusCode: number, body: unknown): APIGatewayProxyStructuredResultV2 {
+	return {
+		statusCode,
+		headers: { "Content-Type": "application/json", "Cache-Control": "no-store" },
+		body: JSON.stringify(body),
+	};
+}
+
+function toSummary(quote: QuoteRecord): QuoteSummary {
+	return {
+		quoteId: quote.quoteId,
+		createdAt: quote.createdAt,
+		status: quote.status ?? "new",
+		assignedRep: quote.assignedRep,
+		salesRep: quote.contactInfo.salesRep,
+		customerName: quote.contactInfo.name,
+		companyName: quote.contactInfo.companyName,
+		zipCode: quote.contactInfo.zipCode,
+		totalItems: quote.metadata.totalItems,
+		totalUniqueProducts: quote.metadata.totalUniqueProducts,
+	};
+}
+
+function isQuoteStatus(value: unknown): value is QuoteStatus {
+	return QUOTE_STATUSES.some((status) => status === value);
+}
+
+function isActiveRepName(registry: SalesRepRegistry, value: unknown): value is string {
+	return registry.reps.some((rep) => rep.active && rep.name === value);
+}
+
+/**
+ * Accepts a date (2026-03-14) or a full ISO timestamp. A date as the end of a range includes
+ * that whole day.
+ */
+function parseDateParam(
+	name: string,
+	value: string | undefined,
+	endOfDay: boolean
+): string | undefined {
+	if (!value) {
+		return undefined;
+	}
+	const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+	const date = new Date(isDateOnly && endOfDay ? `${value}T23:59:59.999Z` : value);
+	if (Number.isNaN(date.getTime())) {
+		throw new AdminApiError(400, `${name} must be a date (YYYY-MM-DD) or an ISO timestamp`);
+	}
+	return date.toISOString();
+}
+
+/**
+ * Reads the list filters from the query string: rep, status, from, to, company, limit and cursor
+ */
+function parseListQuery(query: Record<string, string | undefined>): {
+	filter: QuoteListFilter;
+	limit: number;
+	cursor?: string;
+} {
+	if (query.status !== undefined && !isQuoteStatus(query.status)) {
+		throw new AdminApiError(400, `status must be one of ${QUOTE_STATUSES.join(", ")}`);
+	}
+
+	const limit = query.limit === undefined ? DEFAULT_PAGE_SIZE : Number(query.limit);
+	if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+		throw new AdminApiError(400, `limit must be a whole number from 1 to ${MAX_PAGE_SIZE}`);
+	}
+
+	if (query.cursor !== undefined && !decodeCursor(query.cursor)) {
+		throw new AdminApiError(400, "cursor is invalid");
+	}
+
+	return {
+		filter: {
+			assignedRep: query.rep || undefined,
+			status: query.status,
+			createdFrom: parseDateParam("from", query.from, false),
+			createdTo: parseDateParam("to", query.to, true),
+			company: query.company?.trim() || undefined,
+		},
+		limit,
+		cursor: query.cursor,
+	};
+}
+
+function parseUpdateRequest(
+	body: string | undefined,
+	registry: SalesRepRegistry
+): QuoteUpdateRequest {
+	let update: unknown;
+	try {
+		update = JSON.parse(body ?? "");
+	} catch {
+		throw new AdminApiError(400, "Request body must be JSON");
+	}
+	if (typeof update !== "object" || update === null || Array.isArray(update)) {
+		throw new AdminApiError(400, "Request body must be a JSON object");
+	}
+
+	const { status, assignedRep, ...unknownFields } = update as Record<string, unknown>;
+	if (Object.keys(unknownFields).length > 0) {
+		throw new AdminApiError(400, `Unknown fields: ${Object.keys(unknownFields).join(", ")}`);
+	}
+	if (status === undefined && assignedRep === undefined) {
+		throw new AdminApiError(400, "Set status and/or assignedRep");
+	}
+	if (status !== undefined && !isQuoteStatus(status)) {
+		throw new AdminApiError(400, `status must be one of ${QUOTE_STATUSES.join(", ")}`);
+	}
+	if (assignedRep !== undefined && !isActiveRepName(registry, assignedRep)) {
+		throw new AdminApiError(400, "assignedRep must be the name of an active sales rep");
+	}
+	return { status, assignedRep };
+}
+
+/**
+ * The signed-in rep, from the Cognito token the JWT authorizer verified
+ */
+function getCaller(event: APIGatewayProxyEventV2WithJWTAuthorizer): string {
+	const claims = event.requestContext.authorizer.jwt.claims;
+	return String(claims.email ?? claims["cognito:username"] ?? claims.sub);
+}
+
+async function handleUpdateQuote(
+	event: APIGatewayProxyEventV2WithJWTAuthorizer,
+	quoteId: string,
+	log: Logger
+): Promise<APIGatewayProxyStructuredResultV2> {
+	const update = parseUpdateRequest(event.body, await SALES_REP_REGISTRY_LOADER());
+
+	const quote = await getQuote(quoteId);
+	if (!quote) {
+		throw new AdminApiError(404, `Quote ${quoteId} not found`);
+	}
+
+	const currentStatus = quote.status ?? "new";
+	if (
+		update.status !== undefined &&
+		update.status !== currentStatus &&
+		!QUOTE_STATUS_TRANSITIONS[currentStatus].includes(update.status)
+	) {
+		throw new AdminApiError(409, `A ${currentStatus} quote cannot be marked ${update.status}`);
+	}
+
+	const change: QuoteChange = {
+		...(update.status !== undefined &&
+			update.status !== currentStatus && { status: update.status }),
+		...(update.assignedRep !== undefined &&
+			update.assignedRep !== quote.assignedRep && { assignedRep: update.assignedRep }),
+		changedAt: new Date().toISOString(),
+		changedBy: getCaller(event),
+	};
+	if (!change.status && !change.assignedRep) {
+		return jsonResponse(200, quote);
+	}
+
+	try {
+		const updated = await updateQuote(quoteId, currentStatus, change);
+		log.info("Quote updated", {
+			quoteId,
+			status: change.status,
+			assignedRep: change.assignedRep,
+		});
+		return jsonResponse(200, updated);
+	} catch (error) {
+		if ((error as Error).name === "ConditionalCheckFailedException") {
+			throw new AdminApiError(409, `Quote ${quoteId} was changed by someone else. Reload it.`);
+		}
+		throw error;
+	}
+}
+
+async function routeRequest(
+	event: APIGatewayProxyEventV2WithJWTAuthorizer,
+	log: Logger
+): Promise<APIGatewayProxyStructuredResultV2> {
+	const quoteId = event.pathParameters?.id ?? "";
+
+	switch (event.routeKey) {
+		case ADMIN_ROUTES.listQuotes: {
+			const { filter, limit, cursor } = parseListQuery(event.queryStringParameters ?? {});
+			const page = await listQuotes(filter, limit, cursor);
+			return jsonResponse(200, { quotes: page.quotes.map(toSummary), cursor: page.cursor });
+		}
+		case ADMIN_ROUTES.getQuote: {
+			const quote = await getQuote(quoteId);
+			if (!quote) {
+				throw new AdminApiError(404, `Quote ${quoteId} not found`);
+			}
+			return jsonResponse(200, quote);
+		}
+		case ADMIN_ROUTES.updateQuote:
+			return handleUpdateQuote(event, quoteId, log);
+		default:
+			throw new AdminApiError(404, "Not Found");
+	}
+}
+
+/**
+ * Lambda handler for the rep admin API. API Gateway only invokes it with a Cognito token the
+ * JWT authorizer has verified.
+ */
+export const handler = async (
+	event: APIGatewayProxyEventV2WithJWTAuthorizer
+): Promise<APIGatewayProxyResultV2> => {
+	const correlationId = randomUUID();
+	const log = createLogger({
+		correlationId,
+		apiRequestId: event.requestContext.requestId,
+		routeKey: event.routeKey,
+	});
+
+	let result: APIGatewayProxyStructuredResultV2;
+	try {
+		result = await routeRequest(event, log);
+	} catch (error) {
+		if (error instanceof AdminApiError) {
+			log.warn("Rejected admin request", { statusCode: error.statusCode, reason: error.message });
+			result = jsonResponse(error.statusCode, { error: error.message });
+		} else {
+			log.error("Error handling admin request", { error });
+			result = jsonResponse(500, { error: "Internal server error" });
+		}
+	}
+
+	return { ...result, headers: { ...result.headers, [CORRELATION_ID_HEADER]: correlationId } };
+};
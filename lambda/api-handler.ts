@@ -1,144 +1,439 @@
 import { SQSClient, SendMessageCommand } from "@aws-sdk/client-sqs";
-import type { APIGatewayProxyEventV2, APIGatewayProxyResultV2 } from "aws-lambda";
-import { SALES_REP_OPTIONS, type QuoteRequestPayload } from "./types";
+import type {
+	APIGatewayProxyEventV2,
+	APIGatewayProxyResultV2,
+	APIGatewayProxyStructuredResultV2,
+} from "aws-lambda";
+import { randomUUID } from "node:crypto";
+import { createCaptchaVerifier } from "./captcha";
+import { type CatalogLoader, checkQuoteItems, createCatalogLoader } from "./catalog";
+import { issueFormToken, verifyFormToken } from "./form-token";
+import { createLogger, type Logger } from "./logger";
+import { QUOTE_METRICS, recordMetric } from "./metrics";
+import { validateQuoteRequestPayload } from "./quote-request-schema";
+import { generateQuoteId, markQuoteUnqueued, saveQuote } from "./quote-store";
+import { checkRateLimit, type RateLimitRule } from "./rate-limiter";
+import { buildRequestContext, computeQuoteMetadata } from "./request-context";
+import { createParameterLoader, createSecretLoader } from "./runtime-config";
+import { isSalesRepOption, parseSalesRepRegistry } from "./sales-reps";
+import {
+	claimIdempotencyKey,
+	completeIdempotencyKey,
+	isValidIdempotencyKey,
+	quoteFingerprint,
+	recordQuoteFingerprint,
+	releaseIdempotencyKey,
+	restoreQuoteFingerprint,
+} from "./submissions";
+import {
+	CORRELATION_ID_HEADER,
+	NEW_CUSTOMER_OPTION,
+	QUOTE_REQUEST_SCHEMA_VERSION,
+	type QueuedQuoteRequest,
+	type QuoteRequestPayload,
+} from "./types";
 
 const sqsClient = new SQSClient({});
 
+function getRequiredEnv(key: string): string {
+	const value = process.env[key];
+	if (!value) {
+		throw new Error(`Missing required environment variable: ${key}`);
+	}
+	return value;
+}
+
 const QUEUE_URL = process.env.QUEUE_URL;
-const MAX_PACKS_PER_QUOTE_ITEM = 100;
-const MAX_COMPANY_NAME_LENGTH = 200;
-const ZIP_CODE_REGEX = /^[0-9]{5}(?:-?[0-9]{4})?$/;
 
-const isZipCodeValid = (zipCode: string): boolean => {
-	return ZIP_CODE_REGEX.test(zipCode.trim());
-};
 /**
- * Validates the quote request payload
+ * Read from SSM and Secrets Manager at runtime, so rep changes and secret rotations do not need
+ * a deploy
  */
-function validatePayload(body: QuoteRequestPayload): string[] {
-	const errors: string[] = [];
-
-	if (!body.contactInfo) {
-		errors.push("contactInfo is required");
-	} else {
-		if (!body.contactInfo.name || body.contactInfo.name.trim() === "") {
-			errors.push("name is required");
-		}
-		if (!body.contactInfo.companyName || body.contactInfo.companyName.trim() === "") {
-			errors.push("companyName is required");
-		} else if (body.contactInfo.companyName.trim().length > MAX_COMPANY_NAME_LENGTH) {
-			errors.push(`companyName must be ${MAX_COMPANY_NAME_LENGTH} characters or less`);
-		}
-		if (!body.contactInfo.email || body.contactInfo.email.trim() === "") {
-			errors.push("email is required");
-		} else if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(body.contactInfo.email)) {
-			errors.push("email is invalid");
-		}
-		if (!body.contactInfo.phone || body.contactInfo.phone.trim() === "") {
-			errors.push("phone is required");
-		}
-		if (
-			!body.contactInfo.zipCode ||
-			body.contactInfo.zipCode.trim() === "" ||
-			!isZipCodeValid(body.contactInfo.zipCode)
-		) {
-			errors.push("zip code is invalid");
-		}
-		if (!SALES_REP_OPTIONS.includes(body.contactInfo.salesRep)) {
-			errors.push("salesRep is invalid");
-		}
+const SALES_REP_REGISTRY_LOADER = createParameterLoader(
+	getRequiredEnv("SALES_REP_REGISTRY_PARAMETER"),
+	parseSalesRepRegistry,
+	(error) =>
+		createLogger().error("Error refreshing the sales rep registry, using the cached copy", {
+			error,
+		})
+);
+const FORM_TOKEN_SECRET_LOADER = createSecretLoader(
+	getRequiredEnv("FORM_TOKEN_SECRET_ID"),
+	(error) =>
+		createLogger().error("Error refreshing the form token secret, using the cached copy", { error })
+);
+const CAPTCHA_PROVIDER = process.env.CAPTCHA_PROVIDER;
+const CAPTCHA_SECRET_LOADER = process.env.CAPTCHA_SECRET_ID
+	? createSecretLoader(process.env.CAPTCHA_SECRET_ID, (error) =>
+			createLogger().error("Error refreshing the CAPTCHA secret key, using the cached copy", {
+				error,
+			})
+		)
+	: undefined;
+
+/**
+ * Product catalog published with the website. Quote items are not checked against a catalog
+ * when CATALOG_URL is not set.
+ */
+const CATALOG_LOADER: CatalogLoader | undefined = process.env.CATALOG_URL
+	? createCatalogLoader(process.env.CATALOG_URL, (error) =>
+			createLogger().error("Error refreshing the product catalog, using the cached copy", {
+				error,
+			})
+		)
+	: undefined;
+
+const FORM_TOKEN_ROUTE = "GET /quote/form-token";
+
+/**
+ * Sliding window limits on submissions. The API Gateway stage throttling only caps the total rate.
+ */
+const IP_RATE_LIMIT: RateLimitRule = { name: "ip", limit: 10, windowSeconds: 60 * 60 };
+const EMAIL_RATE_LIMIT: RateLimitRule = { name: "email", limit: 5, windowSeconds: 60 * 60 };
+
+type RejectionReason =
+	| "invalid_json"
+	| "validation"
+	| "idempotency_key"
+	| "honeypot"
+	| "form_token"
+	| "captcha"
+	| "catalog"
+	| "rate_limit_ip"
+	| "rate_limit_email";
+
+/**
+ * Validates the quote request payload against the shared JSON schema and the sales rep registry
+ */
+async function validatePayload(body: unknown): Promise<string[]> {
+	const schemaErrors = validateQuoteRequestPayload(body);
+	if (schemaErrors.length > 0) {
+		return schemaErrors;
 	}
 
-	if (!body.quoteItems || !Array.isArray(body.quoteItems)) {
-		errors.push("quoteItems must be an array");
-	} else if (body.quoteItems.length === 0) {
-		errors.push("quoteItems cannot be empty");
-	} else {
-		body.quoteItems.forEach((item, index) => {
-			if (!item.productName) {
-				errors.push(`quoteItems[${index}].productName is required`);
-			}
-			if (typeof item.quantity !== "number" || item.quantity < 1) {
-				errors.push(`quoteItems[${index}].quantity must be a positive number`);
-			} else if (item.quantity > MAX_PACKS_PER_QUOTE_ITEM) {
-				errors.push(`quoteItems[${index}].quantity must be ${MAX_PACKS_PER_QUOTE_ITEM} or less`);
-			}
+	const { salesRep } = (body as QuoteRequestPayload).contactInfo;
+	const registry = await SALES_REP_REGISTRY_LOADER();
+	return isSalesRepOption(registry, salesRep) ? [] : ["contactInfo.salesRep is invalid"];
+}
+
+/**
+ * Checks the quote items against the product catalog and returns them with canonical product
+ * names. If the catalog cannot be loaded the items are accepted as submitted: losing a quote
+ * request costs more than a rep correcting an item by hand, and the CatalogUnavailable alarm
+ * gets the catalog fixed.
+ */
+async function checkCatalog(
+	payload: QuoteRequestPayload,
+	log: Logger
+): Promise<{ errors: string[]; payload: QuoteRequestPayload }> {
+	if (!CATALOG_LOADER) {
+		return { errors: [], payload };
+	}
+
+	let catalog: Awaited<ReturnType<CatalogLoader>>;
+	try {
+		catalog = await CATALOG_LOADER();
+	} catch (error) {
+		log.error("Product catalog unavailable, accepting quote items unchecked", { error });
+		recordMetric(QUOTE_METRICS.catalogUnavailable);
+		return { errors: [], payload };
+	}
+
+	const { errors, quoteItems } = checkQuoteItems(catalog, payload.quoteItems);
+	return { errors, payload: { ...payload, quoteItems } };
+}
+
+/**
+ * Builds an error response and counts the rejected submission by reason
+ */
+function reject(
+	log: Logger,
+	reason: RejectionReason,
+	statusCode: number,
+	body: Record<string, unknown>,
+	extraHeaders: Record<string, string> = {}
+): APIGatewayProxyStructuredResultV2 {
+	log.warn("Rejected quote request", { reason });
+	recordMetric(QUOTE_METRICS.rejected, { Reason: reason });
+
+	return {
+		statusCode,
+		headers: { "Content-Type": "application/json", ...extraHeaders },
+		body: JSON.stringify({ success: false, ...body }),
+	};
+}
+
+function rejectRateLimited(
+	log: Logger,
+	reason: RejectionReason,
+	retryAfterSeconds: number
+): APIGatewayProxyStructuredResultV2 {
+	return reject(
+		log,
+		reason,
+		429,
+		{ error: "Too many quote requests. Please try again later." },
+		{ "Retry-After": String(retryAfterSeconds) }
+	);
+}
+
+/**
+ * Issues the token the quote form sends back with its submission, to enforce a minimum fill time
+ */
+async function handleFormToken(log: Logger): Promise<APIGatewayProxyStructuredResultV2> {
+	const headers = { "Content-Type": "application/json", "Cache-Control": "no-store" };
+	try {
+		const token = issueFormToken(await FORM_TOKEN_SECRET_LOADER(), new Date());
+		return { statusCode: 200, headers, body: JSON.stringify({ token }) };
+	} catch (error) {
+		log.error("Error issuing form token", { error });
+		return { statusCode: 500, headers, body: JSON.stringify({ error: "Internal server error" }) };
+	}
+}
+
+/**
+ * Runs the remaining abuse checks on a valid payload, then stores and queues the quote request
+ */
+async function acceptQuoteRequest(
+	event: APIGatewayProxyEventV2,
+	payload: QuoteRequestPayload,
+	receivedAt: Date,
+	correlationId: string,
+	log: Logger
+): Promise<APIGatewayProxyStructuredResultV2> {
+	const sourceIp = event.requestContext?.http?.sourceIp || "unknown";
+
+	const formTokenSecret = await FORM_TOKEN_SECRET_LOADER();
+	const formTokenCheck = verifyFormToken(payload.formToken, formTokenSecret, receivedAt);
+	if (formTokenCheck !== "valid") {
+		log.warn("Form token check failed", { formTokenCheck });
+		return reject(log, "form_token", 400, { error: "Submission rejected" });
+	}
+
+	const captchaVerifier = createCaptchaVerifier(CAPTCHA_PROVIDER, await CAPTCHA_SECRET_LOADER?.());
+	if (captchaVerifier && !(await captchaVerifier.verify(payload.captchaToken, sourceIp))) {
+		return reject(log, "captcha", 400, { error: "CAPTCHA verification failed" });
+	}
+
+	const emailLimit = await checkRateLimit(
+		EMAIL_RATE_LIMIT,
+		payload.contactInfo.email.trim().toLowerCase(),
+		receivedAt
+	);
+	if (!emailLimit.allowed) {
+		return rejectRateLimited(log, "rate_limit_email", emailLimit.retryAfterSeconds);
+	}
+
+	const quoteId = await generateQuoteId(receivedAt);
+
+	// Near-duplicates get their own quote ID but are flagged in the rep notification
+	const fingerprint = quoteFingerprint(payload);
+	const recordedFingerprint = await recordQuoteFingerprint(fingerprint, quoteId, receivedAt);
+	const { duplicateOfQuoteId } = recordedFingerprint;
+	if (duplicateOfQuoteId) {
+		log.info("Quote looks like a duplicate", { quoteId, duplicateOfQuoteId });
+		recordMetric(QUOTE_METRICS.duplicate);
+	}
+
+	// Only copy known fields so unknown top-level properties never reach the queue.
+	// The client's metadata is ignored: totals are recomputed from the items.
+	const queuedQuoteRequest: QueuedQuoteRequest = {
+		schemaVersion: QUOTE_REQUEST_SCHEMA_VERSION,
+		quoteId,
+		contactInfo: payload.contactInfo,
+		quoteItems: payload.quoteItems,
+		metadata: computeQuoteMetadata(payload.quoteItems, receivedAt),
+		agreedToContact: payload.agreedToContact,
+		locale: payload.locale,
+		requestContext: buildRequestContext(event, payload.contactInfo.zipCode, receivedAt),
+		...(duplicateOfQuoteId && { duplicateOfQuoteId }),
+	};
+
+	// New customers get a rep when the email processor routes them by territory
+	const { salesRep } = payload.contactInfo;
+	await saveQuote({
+		...queuedQuoteRequest,
+		createdAt: receivedAt.toISOString(),
+		correlationId,
+		status: "new",
+		...(salesRep !== NEW_CUSTOMER_OPTION && { assignedRep: salesRep }),
+	});
+
+	log.info("Putting quote request in queue", {
+		quoteId,
+		email: payload.contactInfo.email,
+		sourceIp: queuedQuoteRequest.requestContext.sourceIp,
+		userAgent: queuedQuoteRequest.requestContext.userAgent,
+	});
+
+	// Send to SQS queue. SQS may deliver a message more than once: the email processor uses the
+	// quote ID to avoid sending the same email twice.
+	const command = new SendMessageCommand({
+		QueueUrl: QUEUE_URL,
+		MessageBody: JSON.stringify(queuedQuoteRequest),
+		MessageAttributes: {
+			quoteId: {
+				DataType: "String",
+				StringValue: quoteId,
+			},
+			email: {
+				DataType: "String",
+				StringValue: payload.contactInfo.email,
+			},
+			correlationId: {
+				DataType: "String",
+				StringValue: correlationId,
+			},
+		},
+	});
+
+	try {
+		await sqsClient.send(command);
+	} catch (error) {
+		// Without a queued message no email is ever sent for the quote. The client gets a 500
+		// and can submit again.
+		await markQuoteUnqueued(quoteId).catch((markError) =>
+			log.error("Error marking quote that was not queued as failed", { quoteId, error: markError })
+		);
+		await restoreQuoteFingerprint(fingerprint, quoteId, recordedFingerprint.replaced).catch(
+			(restoreError) =>
+				log.error("Error restoring quote fingerprint", { quoteId, error: restoreError })
+		);
+		throw error;
+	}
+	recordMetric(QUOTE_METRICS.accepted);
+
+	return {
+		statusCode: 200,
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify({
+			success: true,
+			message: "Quote request submitted successfully",
+			quoteId,
+		}),
+	};
+}
+
+/**
+ * Rate-limits, validates and accepts a parsed submission
+ */
+async function submitQuoteRequest(
+	event: APIGatewayProxyEventV2,
+	body: unknown,
+	receivedAt: Date,
+	correlationId: string,
+	log: Logger
+): Promise<APIGatewayProxyStructuredResultV2> {
+	const sourceIp = event.requestContext?.http?.sourceIp || "unknown";
+
+	// Checked before validation so malformed floods are limited too
+	const ipLimit = await checkRateLimit(IP_RATE_LIMIT, sourceIp, receivedAt);
+	if (!ipLimit.allowed) {
+		return rejectRateLimited(log, "rate_limit_ip", ipLimit.retryAfterSeconds);
+	}
+
+	// Validate payload
+	const validationErrors = await validatePayload(body);
+	if (validationErrors.length > 0) {
+		return reject(log, "validation", 400, {
+			error: "Validation failed",
+			details: validationErrors,
 		});
 	}
 
-	if (typeof body.agreedToContact !== "boolean" || !body.agreedToContact) {
-		errors.push("agreedToContact must be true");
+	const catalogCheck = await checkCatalog(body as QuoteRequestPayload, log);
+	if (catalogCheck.errors.length > 0) {
+		return reject(log, "catalog", 400, {
+			error: "Validation failed",
+			details: catalogCheck.errors,
+		});
 	}
 
-	return errors;
+	return acceptQuoteRequest(event, catalogCheck.payload, receivedAt, correlationId, log);
 }
 
 /**
- * Lambda handler for quote request API
+ * Validates, stores and queues a quote request submission
  */
-export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+async function handleQuoteRequest(
+	event: APIGatewayProxyEventV2,
+	correlationId: string,
+	log: Logger
+): Promise<APIGatewayProxyStructuredResultV2> {
 	const headers = {
 		"Content-Type": "application/json",
 	};
 
+	const idempotencyKey = event.headers?.["idempotency-key"];
+
 	try {
 		// Parse request body
-		let body: QuoteRequestPayload;
+		let body: unknown;
 		try {
 			body = JSON.parse(event.body || "{}");
 		} catch {
-			return {
-				statusCode: 400,
-				headers,
-				body: JSON.stringify({
-					success: false,
-					error: "Invalid JSON in request body",
-				}),
-			};
+			return reject(log, "invalid_json", 400, { error: "Invalid JSON in request body" });
 		}
 
-		// Validate payload
-		const validationErrors = validatePayload(body);
-		if (validationErrors.length > 0) {
-			return {
-				statusCode: 400,
-				headers,
-				body: JSON.stringify({
-					success: false,
-					error: "Validation failed",
-					details: validationErrors,
-				}),
-			};
+		const receivedAt = new Date();
+
+		// Bots fill in every field, including the one hidden from people
+		const honeypot = (body as Partial<QuoteRequestPayload> | null)?.website;
+		if (typeof honeypot === "string" && honeypot.trim().length > 0) {
+			return reject(log, "honeypot", 400, { error: "Submission rejected" });
 		}
 
-		console.log("Putting request in queue...");
-		console.log(`Source ip: ${event.requestContext?.http?.sourceIp || "unknown"}`);
-		console.log(`User agent: ${event.headers?.["user-agent"] || "unknown"}`);
-
-		// Send to SQS queue
-		const command = new SendMessageCommand({
-			QueueUrl: QUEUE_URL,
-			MessageBody: JSON.stringify(body),
-			MessageAttributes: {
-				email: {
-					DataType: "String",
-					StringValue: body.contactInfo.email,
-				},
-			},
-		});
+		// A double-click or network retry repeats the key: replay the original response. Checked
+		// before the rate limits so a replay never counts as a new submission.
+		if (idempotencyKey !== undefined) {
+			if (!isValidIdempotencyKey(idempotencyKey)) {
+				return reject(log, "idempotency_key", 400, { error: "Invalid Idempotency-Key header" });
+			}
 
-		await sqsClient.send(command);
+			const claim = await claimIdempotencyKey(idempotencyKey, body, receivedAt);
+			if (claim.status === "completed") {
+				log.info("Replaying response for a repeated Idempotency-Key");
+				recordMetric(QUOTE_METRICS.idempotentReplay);
+				return {
+					...claim.response,
+					headers: { ...headers, "Idempotent-Replayed": "true" },
+				};
+			}
+			if (claim.status === "in_progress") {
+				return reject(log, "idempotency_key", 409, {
+					error: "A request with this Idempotency-Key is still being processed",
+				});
+			}
+			if (claim.status === "payload_mismatch") {
+				return reject(log, "idempotency_key", 422, {
+					error: "Idempotency-Key was already used for a different quote request",
+				});
+			}
+		}
 
-		return {
-			statusCode: 200,
-			headers,
-			body: JSON.stringify({
-				success: true,
-				message: "Quote request submitted successfully",
-			}),
-		};
+		const result = await submitQuoteRequest(event, body, receivedAt, correlationId, log);
+
+		// Only an accepted submission is replayed; after a rejection the key can be retried
+		if (idempotencyKey !== undefined) {
+			if (result.statusCode === 200) {
+				await completeIdempotencyKey(idempotencyKey, {
+					statusCode: result.statusCode,
+					body: String(result.body),
+				});
+			} else {
+				await releaseIdempotencyKey(idempotencyKey);
+			}
+		}
+
+		return result;
 	} catch (error) {
-		console.error("Error processing quote request:", error);
+		log.error("Error processing quote request", { error });
+
+		if (idempotencyKey !== undefined && isValidIdempotencyKey(idempotencyKey)) {
+			await releaseIdempotencyKey(idempotencyKey).catch((releaseError) =>
+				log.error("Error releasing Idempotency-Key", { error: releaseError })
+			);
+		}
 
 		return {
 			statusCode: 500,
@@ -149,4 +444,19 @@ export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGateway
 			}),
 		};
 	}
+}
+
+/**
+ * Lambda handler for quote request API. Every response carries the request's correlation ID.
+ */
+export const handler = async (event: APIGatewayProxyEventV2): Promise<APIGatewayProxyResultV2> => {
+	const correlationId = randomUUID();
+	const log = createLogger({ correlationId, apiRequestId: event.requestContext?.requestId });
+
+	const result =
+		event.routeKey === FORM_TOKEN_ROUTE
+			? await handleFormToken(log)
+			: await handleQuoteRequest(event, correlationId, log);
+
+	return { ...result, headers: { ...result.headers, [CORRELATION_ID_HEADER]: correlationId } };
 };
@@ -0,0 +1,44 @@
+/**
+ * Returns the current value. Throws when it cannot be loaded and there is no earlier copy.
+ */
+export type CachedLoader<T> = () => Promise<T>;
+
+/**
+ * Caches a value loaded at runtime per Lambda instance, e.g. a catalog or a parameter, and
+ * loads it again once ttlMs has passed. When a refresh fails the previous copy keeps being
+ * used, so a brief outage of the source does not fail requests. Concurrent callers share one load.
+ */
+export function createCachedLoader<T>(
+	load: () => Promise<T>,
+	ttlMs: number,
+	onRefreshError: (error: unknown) => void
+): CachedLoader<T> {
+	let cached: { value: T; loadedAt: number } | undefined;
+	let pending: Promise<T> | undefined;
+
+	async function refresh(): Promise<T> {
+		const now = Date.now();
+		try {
+			cached = { value: await load(), loadedAt: now };
+		} catch (error) {
+			if (!cached) {
+				throw error;
+			}
+			onRefreshError(error);
+			// Try again after another TTL rather than on every request
+			cached = { ...cached, loadedAt: now };
+		}
+		return cached.value;
+	}
+
+	return async () => {
+		if (cached && Date.now() - cached.loadedAt < ttlMs) {
+			return cached.value;
+		}
+
+		pending ??= refresh().finally(() => {
+			pending = undefined;
+		});
+		return pending;
+	};
+}
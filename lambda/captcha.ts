@@ -0,0 +1,67 @@
+/**
+ * Verifies the CAPTCHA token the quote form obtained from the CAPTCHA provider
+ */
+export interface CaptchaVerifier {
+	verify(token: string | undefined, remoteIp: string): Promise<boolean>;
+}
+
+const TURNSTILE_VERIFY_URL = "https://challenges.cloudflare.com/turnstile/v0/siteverify";
+
+/**
+ * Cloudflare Turnstile server-side validation
+ */
+export function createTurnstileVerifier(secretKey: string): CaptchaVerifier {
+	return {
+		async verify(token, remoteIp) {
+			if (!token) {
+				return false;
+			}
+
+			const response = await fetch(TURNSTILE_VERIFY_URL, {
+				method: "POST",
+				headers: { "Content-Type": "application/x-www-form-urlencoded" },
+				body: new URLSearchParams({ secret: secretKey, response: token, remoteip: remoteIp }),
+				signal: AbortSignal.timeout(3_000),
+			});
+			if (!response.ok) {
+				throw new Error(`Turnstile verification failed with status ${response.status}`);
+			}
+
+			const result = (await response.json()) as { success?: boolean };
+			return result.success === true;
+		},
+	};
+}
+
+/**
+ * For local development: accepts any token except "fail", so both paths can be exercised
+ */
+export function createStubCaptchaVerifier(): CaptchaVerifier {
+	return {
+		async verify(token) {
+			return Boolean(token) && token !== "fail";
+		},
+	};
+}
+
+/**
+ * Returns the verifier for the configured provider, or undefined when CAPTCHA is disabled
+ */
+export function createCaptchaVerifier(
+	provider: string | undefined,
+	secretKey: string | undefined
+): CaptchaVerifier | undefined {
+	if (!provider) {
+		return undefined;
+	}
+	if (provider === "stub") {
+		return createStubCaptchaVerifier();
+	}
+	if (provider === "turnstile") {
+		if (!secretKey) {
+			throw new Error("CAPTCHA_SECRET_ID is required when CAPTCHA_PROVIDER is turnstile");
+		}
+		return createTurnstileVerifier(secretKey);
+	}
+	throw new Error(`Unknown CAPTCHA_PROVIDER: ${provider}`);
+}
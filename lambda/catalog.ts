@@ -0,0 +1,121 @@
+import type { CatalogProduct, ProductCatalog } from "../schema/product-catalog.v1";
+import { type CachedLoader, createCachedLoader } from "./cached-loader";
+import { validateProductCatalog } from "./quote-request-schema";
+import type { QuoteItem } from "./types";
+
+export type { CatalogProduct, ProductCatalog };
+
+/**
+ * How long a Lambda instance reuses the catalog before fetching it again
+ */
+const CATALOG_CACHE_TTL_MS = 5 * 60 * 1000;
+
+const CATALOG_FETCH_TIMEOUT_MS = 3_000;
+
+/**
+ * Returns the current catalog. Throws when it cannot be fetched and there is no earlier copy.
+ */
+export type CatalogLoader = CachedLoader<ProductCatalog>;
+
+/**
+ * Loads the catalog the website publishes, e.g. https://example.com/catalog.json, and caches
+ * it per Lambda instance. When a refresh fails the previous copy keeps being used, so a brief
+ * website outage does not affect quote submissions.
+ */
+export function createCatalogLoader(
+	url: string,
+	onRefreshError: (error: unknown) => void
+): CatalogLoader {
+	async function fetchCatalog(): Promise<ProductCatalog> {
+		const response = await fetch(url, { signal: AbortSignal.timeout(CATALOG_FETCH_TIMEOUT_MS) });
+		if (!response.ok) {
+			throw new Error(`Fetching the catalog from ${url} failed with status ${response.status}`);
+		}
+
+		const catalog: unknown = await response.json();
+		const errors = validateProductCatalog(catalog);
+		if (errors.length > 0) {
+			throw new Error(`Catalog at ${url} is invalid: ${errors.join("; ")}`);
+		}
+		return catalog as ProductCatalog;
+	}
+
+	return createCachedLoader(fetchCatalog, CATALOG_CACHE_TTL_MS, onRefreshError);
+}
+
+function normalizeItemNumber(itemNumber: string): string {
+	return itemNumber.trim().toUpperCase();
+}
+
+export interface CatalogCheck {
+	errors: string[];
+
+	/**
+	 * The items with the catalog's product names and variant labels. Only meaningful
+	 * when there are no errors.
+	 */
+	quoteItems: QuoteItem[];
+}
+
+function checkQuoteItem(
+	item: QuoteItem,
+	field: string,
+	product: CatalogProduct | undefined,
+	errors: string[]
+): QuoteItem {
+	if (!product) {
+		errors.push(`${field}.itemNumber ${item.itemNumber} is not in the catalog`);
+		return item;
+	}
+
+	if (product.maxQuantity !== undefined && item.quantity > product.maxQuantity) {
+		errors.push(`${field}.quantity must be at most ${product.maxQuantity} for this product`);
+	}
+
+	const { variantLabel, variantValue, ...rest } = item;
+	const canonical: QuoteItem = {
+		...rest,
+		itemNumber: product.itemNumber,
+		productName: product.productName,
+	};
+
+	if (!product.variant) {
+		if (variantValue) {
+			errors.push(`${field}.variantValue is not allowed for this product`);
+		}
+		return canonical;
+	}
+
+	const value = product.variant.values.find(
+		(candidate) => candidate.toLowerCase() === variantValue?.trim().toLowerCase()
+	);
+	if (variantLabel && variantLabel.trim().toLowerCase() !== product.variant.label.toLowerCase()) {
+		errors.push(`${field}.variantLabel must be "${product.variant.label}" for this product`);
+	} else if (!value) {
+		errors.push(`${field}.variantValue must be one of ${product.variant.values.join(", ")}`);
+	}
+	return { ...canonical, variantLabel: product.variant.label, variantValue: value ?? variantValue };
+}
+
+/**
+ * Checks each quote item against the catalog: the item number must exist, the quantity must be
+ * within the product's limit, and a variant must be one the product offers. Matching ignores
+ * case, and the returned items use the catalog's spelling.
+ */
+export function checkQuoteItems(catalog: ProductCatalog, quoteItems: QuoteItem[]): CatalogCheck {
+	const products = new Map(
+		catalog.products.map((product) => [normalizeItemNumber(product.itemNumber), product])
+	);
+	const errors: string[] = [];
+
+	const checkedItems = quoteItems.map((item, index) =>
+		checkQuoteItem(
+			item,
+			`quoteItems[${index}]`,
+			products.get(normalizeItemNumber(item.itemNumber)),
+			errors
+		)
+	);
+
+	return { errors, quoteItems: checkedItems };
+}
@@ -0,0 +1,99 @@
+import type { EventBridgeEvent } from "aws-lambda";
+import {
+	type ChatMessage,
+	createHttpChatWebhookClient,
+	parseChatWebhookFormat,
+} from "./chat-webhook";
+import { createLogger } from "./logger";
+import {
+	type QUOTE_REQUESTED,
+	QUOTE_REQUESTED_EVENT_VERSION,
+	type QuoteRequestedDetail,
+} from "./quote-events";
+import { createSecretLoader } from "./runtime-config";
+import { NEW_CUSTOMER_OPTION } from "./types";
+
+const logger = createLogger();
+
+function getRequiredEnv(key: string): string {
+	const value = process.env[key];
+	if (!value) {
+		throw new Error(`Missing required environment variable: ${key}`);
+	}
+	return value;
+}
+
+const CHAT_WEBHOOK_FORMAT = parseChatWebhookFormat(getRequiredEnv("CHAT_WEBHOOK_FORMAT"));
+
+/**
+ * The webhook URL is a credential: anyone holding it can post to the channel
+ */
+const CHAT_WEBHOOK_URL_LOADER = createSecretLoader(
+	getRequiredEnv("CHAT_WEBHOOK_SECRET_ID"),
+	(error) =>
+		createLogger().error("Error refreshing the chat webhook URL, using the cached copy", { error })
+);
+
+/**
+ * Items listed in the message. The rep notification email has the full list.
+ */
+const MAX_LISTED_ITEMS = 10;
+
+function describeRep({ salesRep }: QuoteRequestedDetail): string {
+	if (salesRep.assigned) {
+		return salesRep.selected === NEW_CUSTOMER_OPTION
+			? `${salesRep.assigned} (new customer, by territory)`
+			: salesRep.assigned;
+	}
+	return "All new customer reps (outside every territory)";
+}
+
+/**
+ * Contact details stay in the rep notification email rather than the chat channel
+ */
+function formatQuoteRequestedMessage(detail: QuoteRequestedDetail): ChatMessage {
+	const { customer, items, totals } = detail;
+	const location = customer.location
+		? `${customer.location.city}, ${customer.location.state} ${customer.zipCode}`
+		: customer.zipCode;
+	const listedItems = items.slice(0, MAX_LISTED_ITEMS).map((item) => {
+		const variant = item.variantValue
+			? `, ${item.variantLabel ?? "Variant"}: ${item.variantValue}`
+			: "";
+		return `• ${item.quantity} × ${item.productName} (#${item.itemNumber}${variant})`;
+	});
+
+	return {
+		title: `${detail.sandboxed ? "[Sandbox] " : ""}New quote request ${detail.quoteId}`,
+		lines: [
+			`${customer.companyName} (${customer.name}), ${location}`,
+			`Rep: ${describeRep(detail)}`,
+			`${totals.totalItems} case(s) of ${totals.totalUniqueProducts} product(s):`,
+			...listedItems,
+			...(items.length > MAX_LISTED_ITEMS
+				? [`…and ${items.length - MAX_LISTED_ITEMS} more in the rep notification`]
+				: []),
+			...(detail.duplicateOfQuoteId ? [`Possible duplicate of ${detail.duplicateOfQuoteId}`] : []),
+		],
+	};
+}
+
+/**
+ * Subscriber of the quote event bus: posts each QuoteRequested event to the chat webhook.
+ * Throwing lets EventBridge retry the event, then send it to the dead letter queue.
+ */
+export const handler = async (
+	event: EventBridgeEvent<typeof QUOTE_REQUESTED, QuoteRequestedDetail>
+): Promise<void> => {
+	const { detail } = event;
+	const log = logger.child({ quoteId: detail.quoteId, correlationId: detail.correlationId });
+
+	if (detail.version !== QUOTE_REQUESTED_EVENT_VERSION) {
+		log.warn("Skipping QuoteRequested event of an unknown version", { version: detail.version });
+		return;
+	}
+
+	const client = createHttpChatWebhookClient(await CHAT_WEBHOOK_URL_LOADER(), CHAT_WEBHOOK_FORMAT);
+	await client.post(formatQuoteRequestedMessage(detail));
+	log.info("Chat notification posted", { format: CHAT_WEBHOOK_FORMAT });
+};
@@ -0,0 +1,102 @@
+/**
+ * Chat apps the notifier can post to through an incoming webhook
+ */
+export const CHAT_WEBHOOK_FORMATS = ["slack", "teams"] as const;
+
+export type ChatWebhookFormat = (typeof CHAT_WEBHOOK_FORMATS)[number];
+
+export function parseChatWebhookFormat(value: string | undefined): ChatWebhookFormat {
+	const format = CHAT_WEBHOOK_FORMATS.find((candidate) => candidate === value);
+	if (!format) {
+		throw new Error(
+			`Unknown CHAT_WEBHOOK_FORMAT: ${value}. Supported formats: ${CHAT_WEBHOOK_FORMATS.join(", ")}`
+		);
+	}
+	return format;
+}
+
+/**
+ * A message in plain text: a title and its lines. Each format renders it its own way.
+ */
+export interface ChatMessage {
+	title: string;
+	lines: string[];
+}
+
+/**
+ * Posts messages to a chat channel
+ */
+export interface ChatWebhookClient {
+	post(message: ChatMessage): Promise<void>;
+}
+
+/**
+ * Slack incoming webhook payload. `text` is the notification fallback.
+ * See https://api.slack.com/messaging/webhooks
+ */
+function toSlackPayload({ title, lines }: ChatMessage): object {
+	return {
+		text: title,
+		blocks: [
+			{ type: "header", text: { type: "plain_text", text: title } },
+			{ type: "section", text: { type: "plain_text", text: lines.join("\n") } },
+		],
+	};
+}
+
+/**
+ * Adaptive Card for a Teams Workflows webhook
+ * See https://learn.microsoft.com/microsoftteams/platform/webhooks-and-connectors/how-to/add-incoming-webhook
+ */
+function toTeamsPayload({ title, lines }: ChatMessage): object {
+	return {
+		type: "message",
+		attachments: [
+			{
+				contentType: "application/vnd.microsoft.card.adaptive",
+				content: {
+					type: "AdaptiveCard",
+					$schema: "http://adaptivecards.io/schemas/adaptive-card.json",
+					version: "1.4",
+					body: [
+						{ type: "TextBlock", text: title, weight: "Bolder", size: "Medium", wrap: true },
+						...lines.map((line) => ({
+							type: "TextBlock",
+							text: line,
+							wrap: true,
+							spacing: "None",
+						})),
+					],
+				},
+			},
+		],
+	};
+}
+
+const PAYLOAD_BUILDERS: Record<ChatWebhookFormat, (message: ChatMessage) => object> = {
+	slack: toSlackPayload,
+	teams: toTeamsPayload,
+};
+
+/**
+ * Posts to the webhook URL over HTTP. Point the URL at a local server, e.g. the dev server's
+ * /chat-webhook, to see the messages without a chat app.
+ */
+export function createHttpChatWebhookClient(
+	webhookUrl: string,
+	format: ChatWebhookFormat
+): ChatWebhookClient {
+	return {
+		async post(message) {
+			const response = await fetch(webhookUrl, {
+				method: "POST",
+				headers: { "Content-Type": "application/json" },
+				body: JSON.stringify(PAYLOAD_BUILDERS[format](message)),
+				signal: AbortSignal.timeout(5_000),
+			});
+			if (!response.ok) {
+				throw new Error(`Chat webhook responded with status ${response.status}`);
+			}
+		},
+	};
+}
@@ -0,0 +1,44 @@
+/**
+ * Runs task for every item with at most `limit` tasks in flight, and settles each one
+ * independently: one rejected task does not stop the others.
+ */
+export async function settleWithConcurrency<T, R>(
+	items: readonly T[],
+	limit: number,
+	task: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+	const results: PromiseSettledResult<R>[] = new Array(items.length);
+	let next = 0;
+
+	async function worker(): Promise<void> {
+		while (next < items.length) {
+			const index = next++;
+			try {
+				results[index] = { status: "fulfilled", value: await task(items[index]) };
+			} catch (reason) {
+				results[index] = { status: "rejected", reason };
+			}
+		}
+	}
+
+	await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+	return results;
+}
+
+/**
+ * Spaces calls out to at most maxPerSecond. Each call to the returned function resolves once
+ * the caller may go ahead, so concurrent callers share one budget.
+ */
+export function createRateGate(maxPerSecond: number): () => Promise<void> {
+	const intervalMs = 1000 / maxPerSecond;
+	let nextSlot = 0;
+
+	return async () => {
+		const now = Date.now();
+		const slot = Math.max(now, nextSlot);
+		nextSlot = slot + intervalMs;
+		if (slot > now) {
+			await new Promise((resolve) => setTimeout(resolve, slot - now));
+		}
+	};
+}
@@ -0,0 +1,305 @@
+import {
+	ChangeMessageVisibilityBatchCommand,
+	DeleteMessageCommand,
+	type Message,
+	type MessageAttributeValue,
+	ReceiveMessageCommand,
+	SendMessageCommand,
+	SQSClient,
+} from "@aws-sdk/client-sqs";
+import { createLogger } from "./logger";
+import { validateQueuedQuoteRequest } from "./quote-request-schema";
+import { getQuotes, type QuoteRecord } from "./quote-store";
+import { computeQuoteMetadata } from "./request-context";
+import { QUOTE_REQUEST_SCHEMA_VERSION, type QueuedQuoteRequest } from "./types";
+
+const sqsClient = new SQSClient({});
+const logger = createLogger();
+
+function getRequiredEnv(key: string): string {
+	const value = process.env[key];
+	if (!value) {
+		throw new Error(`Missing required environment variable: ${key}`);
+	}
+	return value;
+}
+
+const QUEUE_URL = getRequiredEnv("QUEUE_URL");
+const DEAD_LETTER_QUEUE_URL = getRequiredEnv("DEAD_LETTER_QUEUE_URL");
+
+/**
+ * Caps a single invocation well below the 6 MB synchronous Lambda response limit
+ */
+const MAX_MESSAGES = 100;
+
+/**
+ * Messages stay hidden while one invocation works through the queue, then are made visible again
+ */
+const INSPECTION_VISIBILITY_TIMEOUT_SECONDS = 60;
+
+export type DlqAdminRequest =
+	| { action: "list"; maxMessages?: number }
+	| { action: "redrive"; messageIds: string[] };
+
+export interface DlqMessageSummary {
+	messageId: string;
+	sentAt?: string;
+	receiveCount: number;
+	quoteId?: string;
+	/**
+	 * Set by the email processor for messages it rejected, otherwise the last error recorded
+	 * on the quote
+	 */
+	failureReason?: string;
+	customer?: { name?: string; companyName?: string; email?: string };
+	salesRep?: string;
+	items: { itemNumber?: string; productName?: string; quantity?: number }[];
+	body: string;
+}
+
+export interface RedriveResult {
+	redriven: { messageId: string; quoteId?: string; source: "message" | "quote record" }[];
+	failed: { messageId: string; error: string }[];
+	notFound: string[];
+}
+
+/**
+ * Receives up to maxMessages messages from the DLQ, hiding them from other consumers while
+ * this invocation runs
+ */
+async function receiveDeadLetters(maxMessages: number): Promise<Message[]> {
+	const messages = new Map<string, Message>();
+
+	while (messages.size < maxMessages) {
+		const result = await sqsClient.send(
+			new ReceiveMessageCommand({
+				QueueUrl: DEAD_LETTER_QUEUE_URL,
+				MaxNumberOfMessages: Math.min(10, maxMessages - messages.size),
+				VisibilityTimeout: INSPECTION_VISIBILITY_TIMEOUT_SECONDS,
+				WaitTimeSeconds: 1,
+				MessageAttributeNames: ["All"],
+				MessageSystemAttributeNames: ["SentTimestamp", "ApproximateReceiveCount"],
+			})
+		);
+		const received = result.Messages ?? [];
+		if (received.length === 0) {
+			break;
+		}
+		for (const message of received) {
+			if (message.MessageId) {
+				messages.set(message.MessageId, message);
+			}
+		}
+	}
+
+	return [...messages.values()];
+}
+
+/**
+ * Makes messages visible on the DLQ again right away
+ */
+async function releaseDeadLetters(messages: Message[]): Promise<void> {
+	for (let start = 0; start < messages.length; start += 10) {
+		await sqsClient.send(
+			new ChangeMessageVisibilityBatchCommand({
+				QueueUrl: DEAD_LETTER_QUEUE_URL,
+				Entries: messages.slice(start, start + 10).map((message, index) => ({
+					Id: String(index),
+					ReceiptHandle: message.ReceiptHandle,
+					VisibilityTimeout: 0,
+				})),
+			})
+		);
+	}
+}
+
+function parseBody(body: string | undefined): Partial<QueuedQuoteRequest> | undefined {
+	try {
+		const parsed: unknown = JSON.parse(body ?? "");
+		return typeof parsed === "object" && parsed !== null ? parsed : undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+function getQuoteId(message: Message): string | undefined {
+	return message.MessageAttributes?.quoteId?.StringValue ?? parseBody(message.Body)?.quoteId;
+}
+
+function summarize(message: Message, quote: QuoteRecord | undefined): DlqMessageSummary {
+	const body = parseBody(message.Body);
+	const sentTimestamp = Number(message.Attributes?.SentTimestamp);
+
+	return {
+		messageId: message.MessageId ?? "",
+		sentAt: sentTimestamp ? new Date(sentTimestamp).toISOString() : undefined,
+		receiveCount: Number(message.Attributes?.ApproximateReceiveCount ?? 0),
+		quoteId: getQuoteId(message),
+		failureReason: message.MessageAttributes?.failureReason?.StringValue ?? quote?.lastError,
+		customer: body?.contactInfo && {
+			name: body.contactInfo.name,
+			companyName: body.contactInfo.companyName,
+			email: body.contactInfo.email,
+		},
+		salesRep: body?.contactInfo?.salesRep,
+		items: (Array.isArray(body?.quoteItems) ? body.quoteItems : []).map((item) => ({
+			itemNumber: item?.itemNumber,
+			productName: item?.productName,
+			quantity: item?.quantity,
+		})),
+		body: message.Body ?? "",
+	};
+}
+
+/**
+ * Rebuilds the queue message from the quote stored by the API handler. Quotes stored before
+ * the current message format get the server-side fields the API handler now adds.
+ */
+function rebuildFromQuoteRecord(quote: QuoteRecord): QueuedQuoteRequest {
+	const createdAt = new Date(quote.createdAt);
+	const legacy: Partial<QuoteRecord> = quote;
+
+	return {
+		schemaVersion: QUOTE_REQUEST_SCHEMA_VERSION,
+		quoteId: quote.quoteId,
+		contactInfo: quote.contactInfo,
+		quoteItems: quote.quoteItems,
+		metadata: legacy.metadata ?? computeQuoteMetadata(quote.quoteItems, createdAt),
+		agreedToContact: quote.agreedToContact,
+		locale: quote.locale,
+		requestContext: legacy.requestContext ?? {
+			receivedAt: quote.createdAt,
+			apiRequestId: "unknown",
+			sourceIp: "unknown",
+			userAgent: "unknown",
+		},
+		...(quote.duplicateOfQuoteId && { duplicateOfQuoteId: quote.duplicateOfQuoteId }),
+	};
+}
+
+/**
+ * Picks the body to send back to the quote queue: the original one when it is still valid,
+ * otherwise one rebuilt from the stored quote, so no failed quote needs hand-edited JSON
+ */
+function getRedriveBody(
+	message: Message,
+	quote: QuoteRecord | undefined
+): { body: string; source: "message" | "quote record" } {
+	const original = parseBody(message.Body);
+	if (original && validateQueuedQuoteRequest(original).length === 0) {
+		return { body: message.Body ?? "", source: "message" };
+	}
+
+	if (!quote) {
+		throw new Error("Message is invalid and no stored quote was found to rebuild it from");
+	}
+	const rebuilt = rebuildFromQuoteRecord(quote);
+	const errors = validateQueuedQuoteRequest(rebuilt);
+	if (errors.length > 0) {
+		throw new Error(`Stored quote is invalid: ${errors.join("; ")}`);
+	}
+	return { body: JSON.stringify(rebuilt), source: "quote record" };
+}
+
+async function redrive(message: Message, quote: QuoteRecord | undefined) {
+	const { body, source } = getRedriveBody(message, quote);
+
+	const attributes: Record<string, MessageAttributeValue> = {};
+	for (const [name, attribute] of Object.entries(message.MessageAttributes ?? {})) {
+		// failureReason belongs to the failed attempt, not to the quote request
+		if (name !== "failureReason") {
+			attributes[name] = {
+				DataType: attribute.DataType,
+				StringValue: attribute.StringValue,
+				BinaryValue: attribute.BinaryValue,
+			};
+		}
+	}
+	const quoteId = getQuoteId(message);
+	if (quoteId) {
+		attributes.quoteId ??= { DataType: "String", StringValue: quoteId };
+	}
+
+	await sqsClient.send(
+		new SendMessageCommand({
+			QueueUrl: QUEUE_URL,
+			MessageBody: body,
+			MessageAttributes: attributes,
+		})
+	);
+	await sqsClient.send(
+		new DeleteMessageCommand({
+			QueueUrl: DEAD_LETTER_QUEUE_URL,
+			ReceiptHandle: message.ReceiptHandle,
+		})
+	);
+
+	return { messageId: message.MessageId ?? "", quoteId, source };
+}
+
+/**
+ * Operator Lambda behind `npm run dlq`: lists the quote request DLQ and redrives
+ * selected messages back to the quote request queue
+ */
+export const handler = async (
+	request: DlqAdminRequest
+): Promise<DlqMessageSummary[] | RedriveResult> => {
+	if (request.action === "list") {
+		const messages = await receiveDeadLetters(
+			Math.min(request.maxMessages ?? MAX_MESSAGES, MAX_MESSAGES)
+		);
+		try {
+			const quotes = await getQuotes(
+				messages.map(getQuoteId).filter((quoteId) => quoteId !== undefined)
+			);
+			return messages.map((message) => {
+				const quoteId = getQuoteId(message);
+				return summarize(message, quoteId ? quotes.get(quoteId) : undefined);
+			});
+		} finally {
+			await releaseDeadLetters(messages);
+		}
+	}
+
+	if (request.action === "redrive") {
+		const messages = await receiveDeadLetters(MAX_MESSAGES);
+		const selected = messages.filter((message) =>
+			request.messageIds.includes(message.MessageId ?? "")
+		);
+		const result: RedriveResult = {
+			redriven: [],
+			failed: [],
+			notFound: request.messageIds.filter(
+				(messageId) => !selected.some((message) => message.MessageId === messageId)
+			),
+		};
+
+		try {
+			const quotes = await getQuotes(
+				selected.map(getQuoteId).filter((quoteId) => quoteId !== undefined)
+			);
+			for (const message of selected) {
+				const quoteId = getQuoteId(message);
+				try {
+					result.redriven.push(await redrive(message, quoteId ? quotes.get(quoteId) : undefined));
+				} catch (error) {
+					result.failed.push({ messageId: message.MessageId ?? "", error: String(error) });
+				}
+			}
+		} finally {
+			const redrivenIds = new Set(result.redriven.map(({ messageId }) => messageId));
+			await releaseDeadLetters(
+				messages.filter((message) => !redrivenIds.has(message.MessageId ?? ""))
+			);
+		}
+
+		logger.info("DLQ redrive finished", {
+			redriven: result.redriven.length,
+			failed: result.failed.length,
+			notFound: result.notFound.length,
+		});
+		return result;
+	}
+
+	throw new Error(`Unknown action: ${(request as { action: unknown }).action}`);
+};
@@ -1,11 +1,40 @@
-import { SESClient, SendEmailCommand } from "@aws-sdk/client-ses";
-import type { SQSEvent } from "aws-lambda";
-import type { QuoteRequestPayload, QuoteItem, SalesRepOption } from "./types";
+import { EventBridgeClient, PutEventsCommand } from "@aws-sdk/client-eventbridge";
+import { SESClient, SendRawEmailCommand } from "@aws-sdk/client-ses";
+import { type MessageAttributeValue, SQSClient, SendMessageCommand } from "@aws-sdk/client-sqs";
+import type { SQSBatchResponse, SQSEvent, SQSRecord } from "aws-lambda";
+import { createRateGate, settleWithConcurrency } from "./concurrency";
+import { getEmailSuppression } from "./email-suppressions";
+import { createLogger, type Logger } from "./logger";
+import { QUOTE_METRICS, recordMetric } from "./metrics";
+import { buildMimeMessage, type MimeAttachment } from "./mime";
+import {
+	parseExportColumns,
+	parseQuoteExportFormat,
+	renderQuoteExportAttachment,
+} from "./quote-export";
+import { buildQuoteRequestedDetail, QUOTE_EVENT_SOURCE, QUOTE_REQUESTED } from "./quote-events";
+import { validateQueuedQuoteRequest } from "./quote-request-schema";
+import {
+	assignQuoteRep,
+	getSentEmails,
+	markEmailSent,
+	type QuoteEmail,
+	recordProcessingError,
+	restoreQueuedQuote,
+} from "./quote-store";
+import { createParameterLoader } from "./runtime-config";
+import { getDestinationEmails, parseSalesRepRegistry, type SalesRepRegistry } from "./sales-reps";
+import { describeTerritoryRouting, resolveTerritory, validateTerritoryRules } from "./territories";
+import { TERRITORY_RULES } from "./territory-table";
+import { renderCustomerAcknowledgement } from "./templates/customer-acknowledgement";
+import { renderQuoteRequestPdfAttachment } from "./templates/quote-request-pdf";
+import { renderRepNotification } from "./templates/rep-notification";
+import { NEW_CUSTOMER_OPTION, type QueuedQuoteRequest } from "./types";
 
 const sesClient = new SESClient({});
-const SALES_REP_EMAIL_KEYS = ["Judith", "Sanjay", "Ajay"] as const;
-type SalesRepEmailKey = (typeof SALES_REP_EMAIL_KEYS)[number];
-const REQUIRED_SALES_REP_EMAIL_KEYS = ["Judith", "Sanjay", "Ajay"] as const;
+const sqsClient = new SQSClient({});
+const eventBridgeClient = new EventBridgeClient({});
+const logger = createLogger();
 
 function getRequiredEnv(key: string): string {
 	const value = process.env[key];
@@ -16,266 +45,472 @@ function getRequiredEnv(key: string): string {
 }
 
 const SENDER_EMAIL = getRequiredEnv("SENDER_EMAIL");
-const SALE_REP_EMAIL_MAP = parseSalesRepEmailMap(getRequiredEnv("SALE_REP_EMAIL_MAP"));
+const SES_CONFIGURATION_SET_NAME = getRequiredEnv("SES_CONFIGURATION_SET_NAME");
+const DEAD_LETTER_QUEUE_URL = getRequiredEnv("DEAD_LETTER_QUEUE_URL");
 
-function isSalesRepEmailMap(value: unknown): value is Record<"Judith" | "Sanjay" | "Ajay", string> {
-	if (!value || typeof value !== "object" || Array.isArray(value)) {
-		return false;
-	}
+/**
+ * Custom EventBridge bus QuoteRequested events are published to for chat and other integrations
+ */
+const EVENT_BUS_NAME = getRequiredEnv("EVENT_BUS_NAME");
 
-	for (const salesRep of REQUIRED_SALES_REP_EMAIL_KEYS) {
-		const email = Reflect.get(value, salesRep);
-		if (typeof email !== "string" || email.trim().length === 0) {
-			return false;
-		}
+/**
+ * Format and columns of the quote items attachment that the ordering software imports
+ */
+const QUOTE_EXPORT_FORMAT = parseQuoteExportFormat(process.env.QUOTE_EXPORT_FORMAT);
+const QUOTE_EXPORT_COLUMNS = parseExportColumns(process.env.QUOTE_EXPORT_COLUMNS);
+
+/**
+ * Set outside production: every rep notification goes to this inbox instead of the reps,
+ * and customers' replies go there too
+ */
+const REP_EMAIL_SANDBOX = process.env.REP_EMAIL_SANDBOX || undefined;
+
+/**
+ * Emails per second this Lambda instance may send. QuoteRequestStack splits the account's SES
+ * sending rate across the processor's reserved concurrency.
+ */
+const SES_SEND_RATE_PER_INSTANCE = Number(getRequiredEnv("SES_SEND_RATE_PER_INSTANCE"));
+
+/**
+ * Records of a batch processed at the same time. Sends are still paced by SES_SEND_RATE_PER_INSTANCE.
+ */
+const RECORD_CONCURRENCY = 5;
+
+const waitForSendSlot = createRateGate(SES_SEND_RATE_PER_INSTANCE);
+
+/**
+ * A registry the territory table does not match is rejected like an unparseable one, so the
+ * previous registry stays in use
+ */
+function parseRoutableRegistry(value: string): SalesRepRegistry {
+	const registry = parseSalesRepRegistry(value);
+	const territoryErrors = validateTerritoryRules(TERRITORY_RULES, registry);
+	if (territoryErrors.length > 0) {
+		throw new Error(`Invalid territory table: ${territoryErrors.join("; ")}`);
 	}
-	return true;
+	return registry;
 }
 
-function parseSalesRepEmailMap(value: string): Record<"Judith" | "Sanjay" | "Ajay", string> {
-	let parsed: unknown;
+/**
+ * Read from SSM at runtime, so rep address changes take effect without a deploy
+ */
+const SALES_REP_REGISTRY_LOADER = createParameterLoader(
+	getRequiredEnv("SALES_REP_REGISTRY_PARAMETER"),
+	parseRoutableRegistry,
+	(error) =>
+		logger.error("Error refreshing the sales rep registry, using the cached copy", { error })
+);
+
+interface QuoteRouting {
+	destinationEmails: string[];
+
+	/**
+	 * Name of the single rep who owns the quote, when there is one
+	 */
+	assignedRepName?: string;
+
+	/**
+	 * Explanation of the territory rule applied to a "New customer" submission
+	 */
+	territoryNote?: string;
+
+	/**
+	 * The reps' addresses when destinationEmails was replaced by the sandbox inbox
+	 */
+	sandboxedEmails?: string[];
+}
 
-	try {
-		parsed = JSON.parse(value);
-	} catch {
-		throw new Error("Invalid SALE_REP_EMAIL_MAP environment variable. Expected valid JSON.");
+/**
+ * Routes existing customers to the rep they picked (plus CC rules), and new customers
+ * to the owner of their zip code territory. New customers outside every territory go to
+ * all new customer reps.
+ */
+function routeToReps(registry: SalesRepRegistry, quoteRequest: QueuedQuoteRequest): QuoteRouting {
+	const { salesRep, zipCode } = quoteRequest.contactInfo;
+
+	if (salesRep !== NEW_CUSTOMER_OPTION) {
+		return {
+			destinationEmails: getRequiredDestinationEmails(registry, salesRep),
+			assignedRepName: salesRep,
+		};
 	}
 
-	if (!isSalesRepEmailMap(parsed)) {
-		throw new Error("Invalid SALE_REP_EMAIL_MAP environment variable. Expected a JSON object.");
-	}
+	const territory = resolveTerritory(TERRITORY_RULES, registry, zipCode);
 
 	return {
-		Judith: parsed.Judith.trim(),
-		Sanjay: parsed.Sanjay.trim(),
-		Ajay: parsed.Ajay.trim(),
+		destinationEmails: territory
+			? territory.rep.emails
+			: getRequiredDestinationEmails(registry, salesRep),
+		assignedRepName: territory?.rep.name,
+		territoryNote: describeTerritoryRouting(territory, zipCode),
 	};
 }
 
-const SALE_REP_DESTINATIONS: Record<SalesRepOption, SalesRepEmailKey[]> = {
-	Judith: ["Judith"],
-	Sanjay: ["Sanjay"],
-	Ajay: ["Ajay", "Sanjay"],
-	"New customer": ["Judith", "Sanjay"],
-};
-
-function getDestinationEmails(salesRep: SalesRepOption): string[] {
-	return [
-		...new Set(
-			SALE_REP_DESTINATIONS[salesRep]
-				.map((repKey) => SALE_REP_EMAIL_MAP[repKey])
-				.filter((email): email is string => typeof email === "string" && email.length > 0)
-		),
-	];
+/**
+ * Routes the quote to its reps, or to the sandbox inbox when REP_EMAIL_SANDBOX is set
+ */
+function routeQuoteRequest(
+	registry: SalesRepRegistry,
+	quoteRequest: QueuedQuoteRequest
+): QuoteRouting {
+	const routing = routeToReps(registry, quoteRequest);
+	if (!REP_EMAIL_SANDBOX) {
+		return routing;
+	}
+	return {
+		...routing,
+		destinationEmails: [REP_EMAIL_SANDBOX],
+		sandboxedEmails: routing.destinationEmails,
+	};
 }
 
-function formatSelection(item: QuoteItem): string {
-	if (!item.variantLabel || !item.variantValue) {
-		return "Standard";
+function getRequiredDestinationEmails(registry: SalesRepRegistry, salesRep: string): string[] {
+	const destinationEmails = getDestinationEmails(registry, salesRep);
+	if (destinationEmails.length === 0) {
+		throw new Error(`No active sales rep is configured for "${salesRep}"`);
 	}
+	return destinationEmails;
+}
 
-	const label = item.variantLabel.charAt(0).toUpperCase() + item.variantLabel.slice(1);
-	return `${label}: ${item.variantValue}`;
+/**
+ * Sends a UTF-8 HTML + text email, with optional attachments, from the configured sender address.
+ * SendEmail cannot carry attachments, so the MIME message is built here and sent raw. The quote
+ * ID and email tags let the SES event handler record delivery, bounce and complaint events on
+ * the quote.
+ */
+async function sendEmail(email: {
+	quoteId: string;
+	email: QuoteEmail;
+	correlationId: string | undefined;
+	toAddresses: string[];
+	replyToAddresses: string[];
+	subject: string;
+	htmlBody: string;
+	textBody: string;
+	attachments?: MimeAttachment[];
+}): Promise<void> {
+	const rawMessage = buildMimeMessage({
+		from: SENDER_EMAIL,
+		to: email.toAddresses,
+		replyTo: email.replyToAddresses,
+		subject: email.subject,
+		htmlBody: email.htmlBody,
+		textBody: email.textBody,
+		attachments: email.attachments,
+	});
+
+	const command = new SendRawEmailCommand({
+		Source: SENDER_EMAIL,
+		Destinations: email.toAddresses,
+		ConfigurationSetName: SES_CONFIGURATION_SET_NAME,
+		Tags: [
+			{ Name: "quoteId", Value: email.quoteId },
+			{ Name: "email", Value: email.email },
+			...(email.correlationId ? [{ Name: "correlationId", Value: email.correlationId }] : []),
+		],
+		RawMessage: {
+			Data: Buffer.from(rawMessage, "utf-8"),
+		},
+	});
+
+	await waitForSendSlot();
+	await sesClient.send(command);
 }
 
 /**
- * Formats the quote items into a readable HTML table
+ * Records a sent email on the quote. Failing here must not fail the message: a retry would send
+ * the email again, which is what recording it is meant to prevent.
  */
-function formatQuoteItemsHtml(quoteItems: QuoteItem[], totalCasesRequested: number): string {
-	const rows = quoteItems
-		.map(
-			(item) => `
-    <tr>
-      <td style="padding: 8px; border: 1px solid #ddd;">${item.itemNumber}</td>
-      <td style="padding: 8px; border: 1px solid #ddd;">${item.productName}</td>
-      <td style="padding: 8px; border: 1px solid #ddd;">${formatSelection(item)}</td>
-      <td style="padding: 8px; border: 1px solid #ddd; text-align: center;">${item.quantity}</td>
-    </tr>
-  `
-		)
-		.join("");
-
-	return `
-    <table style="border-collapse: collapse; width: 100%; margin: 16px 0;">
-      <thead>
-        <tr style="background-color: #f5f5f5;">
-          <th style="padding: 8px; border: 1px solid #ddd; text-align: left;">Item #</th>
-          <th style="padding: 8px; border: 1px solid #ddd; text-align: left;">Product</th>
-          <th style="padding: 8px; border: 1px solid #ddd; text-align: left;">Selection</th>
-          <th style="padding: 8px; border: 1px solid #ddd; text-align: center;">Cases</th>
-        </tr>
-      </thead>
-      <tbody>
-        ${rows}
-      </tbody>
-       <tfoot>
-        <tr style="background-color: #f5f5f5;">
-          <th style="padding: 8px; border: 1px solid #ddd; text-align: left;" colspan="3"><strong>Total</strong></th>
-          <th style="padding: 8px; border: 1px solid #ddd; text-align: center;">${totalCasesRequested}</th>
-        </tr>
-      </tfoot>
-    </table>
-  `;
+async function recordEmailSent(log: Logger, quoteId: string, email: QuoteEmail): Promise<void> {
+	try {
+		await markEmailSent(quoteId, email, new Date());
+	} catch (error) {
+		log.error("Error recording email as sent", { emailType: email, error });
+	}
 }
 
 /**
- * Formats the quote items into plain text
+ * Undoes the API handler marking the quote failed when its SendMessage call failed after all.
+ * Runs after the rep notification is recorded, which stops any later mark. Like recordEmailSent,
+ * a failure is only logged.
  */
-function formatQuoteItemsText(quoteItems: QuoteItem[]): string {
-	return quoteItems
-		.map((item) => {
-			const selection = formatSelection(item);
-			return `- [${item.itemNumber}] ${item.productName}${
-				selection === "Standard" ? "" : ` (${selection})`
-			}: ${item.quantity} case(s)`;
-		})
-		.join("\n");
+async function recordQuoteQueued(log: Logger, quoteId: string): Promise<void> {
+	try {
+		await restoreQueuedQuote(quoteId);
+	} catch (error) {
+		log.error("Error restoring quote marked failed", { error });
+	}
 }
 
 /**
- * Generates the email content
+ * Records the rep a quote was routed to, for the admin API. Like recordEmailSent, a failure is
+ * only logged: it must not stop the rep from being notified.
  */
-function generateEmailContent(quoteRequest: QuoteRequestPayload): {
-	subject: string;
-	htmlBody: string;
-	textBody: string;
-} {
-	const { contactInfo, quoteItems, metadata } = quoteRequest;
-
-	const subject = `New Quote Request from ${contactInfo.name}`;
-
-	const htmlBody = `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <style>
-        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-        .header { background-color: #2563eb; color: white; padding: 20px; text-align: center; }
-        .section { margin: 20px 0; padding: 15px; background-color: #f9fafb; border-radius: 8px; }
-        .section-title { font-weight: bold; margin-bottom: 10px; color: #1f2937; }
-        .info-row { margin: 5px 0; }
-        .label { font-weight: 600; }
-        .footer { margin-top: 20px; padding-top: 20px; border-top: 1px solid #ddd; font-size: 12px; color: #666; }
-      </style>
-    </head>
-    <body>
-      <div class="container">
-        <div class="header">
-          <h1>New Quote Request</h1>
-        </div>
-
-        <div class="section">
-          <div class="section-title">Customer Contact Information</div>
-          <div class="info-row"><span class="label">Name:</span> ${contactInfo.name}</div>
-          <div class="info-row"><span class="label">Company:</span> ${contactInfo.companyName}</div>
-          <div class="info-row"><span class="label">Email:</span> <a href="mailto:${contactInfo.email}">${contactInfo.email}</a></div>
-          <div class="info-row"><span class="label">Phone:</span> <a href="tel:${contactInfo.phone}">${contactInfo.phone}</a></div>
-          <div class="info-row"><span class="label">Zip code:</span> ${contactInfo.zipCode}</div>
-          <div class="info-row"><span class="label">Sales rep:</span> ${contactInfo.salesRep}</div>
-        </div>
-
-        <div class="section">
-          <div class="section-title">Requested Items</div>
-          ${formatQuoteItemsHtml(quoteItems, metadata.totalItems)}
-        </div>
-
-        <div class="section">
-          <div class="section-title">Request Details</div>
-          <div class="info-row"><span class="label">Submitted:</span> ${metadata.submittedAt}</div>
-        </div>
-
-        <div class="footer">
-          <p>This is an automated message from A & S Distributors quote request system.</p>
-          <p>The customer has agreed to be contacted by a sales representative.</p>
-        </div>
-      </div>
-    </body>
-    </html>
-  `;
-
-	const textBody = `
-NEW QUOTE REQUEST
-=================
-
-Contact Information
--------------------
-Name: ${contactInfo.name}
-Company: ${contactInfo.companyName}
-Email: ${contactInfo.email}
-Phone: ${contactInfo.phone}
-Zip code: ${contactInfo.zipCode}
-Sales rep: ${contactInfo.salesRep}
-
-Requested Items (${metadata.totalUniqueProducts} items, ${metadata.totalItems} total cases)
--------------------
-${formatQuoteItemsText(quoteItems)}
-
-Request Details
--------------------
-Submitted: ${metadata.submittedAt}
-
----
-This is an automated message from A & S Distributors quote request system.
-The customer has agreed to be contacted by a sales representative.
-  `.trim();
-
-	return { subject, htmlBody, textBody };
+async function recordAssignedRep(log: Logger, quoteId: string, repName: string): Promise<void> {
+	try {
+		await assignQuoteRep(quoteId, repName);
+	} catch (error) {
+		log.error("Error recording assigned rep", { error });
+	}
 }
 
 /**
- * Lambda handler for processing SQS messages and sending emails
+ * Publishes the QuoteRequested event. Like recordEmailSent, a failure is only logged: a retry
+ * would send the rep notification again, and email is what reaches the reps.
  */
-export const handler = async (event: SQSEvent): Promise<void> => {
-	console.log("Processing", event.Records.length, "quote request(s)");
-
-	/*
-    Note, this is executing one quote request at a time given batchSize = 1
-
-    emailProcessorLambda.addEventSource(
-      new lambdaEventSources.SqsEventSource(quoteQueue, {
-      batchSize: 1,
-    }))
-  */
-	for (const record of event.Records) {
-		try {
-			const quoteRequest: QuoteRequestPayload = JSON.parse(record.body);
-
-			const { subject, htmlBody, textBody } = generateEmailContent(quoteRequest);
-			const destinationEmails = getDestinationEmails(quoteRequest.contactInfo.salesRep);
-
-			const command = new SendEmailCommand({
-				Source: SENDER_EMAIL,
-				Destination: {
-					ToAddresses: destinationEmails,
-				},
-				ReplyToAddresses: [quoteRequest.contactInfo.email],
-				Message: {
-					Subject: {
-						Data: subject,
-						Charset: "UTF-8",
-					},
-					Body: {
-						Html: {
-							Data: htmlBody,
-							Charset: "UTF-8",
-						},
-						Text: {
-							Data: textBody,
-							Charset: "UTF-8",
-						},
+async function publishQuoteRequested(
+	log: Logger,
+	correlationId: string | undefined,
+	quoteRequest: QueuedQuoteRequest,
+	routing: QuoteRouting
+): Promise<void> {
+	const detail = buildQuoteRequestedDetail(
+		quoteRequest,
+		{ assignedRepName: routing.assignedRepName, sandboxed: Boolean(routing.sandboxedEmails) },
+		correlationId
+	);
+
+	try {
+		const { FailedEntryCount, Entries } = await eventBridgeClient.send(
+			new PutEventsCommand({
+				Entries: [
+					{
+						EventBusName: EVENT_BUS_NAME,
+						Source: QUOTE_EVENT_SOURCE,
+						DetailType: QUOTE_REQUESTED,
+						Detail: JSON.stringify(detail),
 					},
+				],
+			})
+		);
+		if (FailedEntryCount) {
+			throw new Error(`PutEvents rejected the event: ${Entries?.[0]?.ErrorMessage}`);
+		}
+		log.info("QuoteRequested event published");
+	} catch (error) {
+		log.error("Error publishing QuoteRequested event", { error });
+		recordMetric(QUOTE_METRICS.quoteEventPublishFailed);
+	}
+}
+
+/**
+ * Sends the customer a confirmation of their quote request. Replies go to the assigned sales reps.
+ * Failures are logged rather than thrown: the acknowledgement is a courtesy, so the message
+ * is not retried for it. Addresses that bounced or complained before are skipped.
+ */
+async function sendCustomerAcknowledgement(
+	log: Logger,
+	correlationId: string | undefined,
+	quoteRequest: QueuedQuoteRequest,
+	salesRepEmails: string[],
+	assignedRepName: string | undefined
+): Promise<void> {
+	try {
+		const suppression = await getEmailSuppression(quoteRequest.contactInfo.email);
+		if (suppression) {
+			log.info("Customer acknowledgement not sent: address is suppressed", {
+				suppressionReason: suppression.reason,
+				suppressedAt: suppression.suppressedAt,
+			});
+			recordMetric(QUOTE_METRICS.customerEmailSuppressed);
+			return;
+		}
+
+		const { subject, htmlBody, textBody } = renderCustomerAcknowledgement(
+			quoteRequest,
+			assignedRepName
+		);
+
+		await sendEmail({
+			quoteId: quoteRequest.quoteId,
+			email: "customerAcknowledgement",
+			correlationId,
+			toAddresses: [quoteRequest.contactInfo.email],
+			replyToAddresses: salesRepEmails,
+			subject,
+			htmlBody,
+			textBody,
+		});
+		log.info("Customer acknowledgement sent");
+		await recordEmailSent(log, quoteRequest.quoteId, "customerAcknowledgement");
+	} catch (error) {
+		log.error("Error sending customer acknowledgement", { error });
+	}
+}
+
+/**
+ * SQS limits a message attribute value to 256 KB, but the reason only needs to be readable
+ */
+const MAX_FAILURE_REASON_LENGTH = 1000;
+
+type ParsedRecord = { quoteRequest: QueuedQuoteRequest } | { rejectionReason: string };
+
+/**
+ * Parses a queue message and checks it against the quote request schema
+ */
+function parseRecord(record: SQSRecord): ParsedRecord {
+	let body: unknown;
+	try {
+		body = JSON.parse(record.body);
+	} catch {
+		return { rejectionReason: "Message body is not valid JSON" };
+	}
+
+	const errors = validateQueuedQuoteRequest(body);
+	if (errors.length > 0) {
+		return { rejectionReason: `Schema validation failed: ${errors.join("; ")}` };
+	}
+	return { quoteRequest: body as QueuedQuoteRequest };
+}
+
+/**
+ * Moves a message that can never be processed straight to the dead letter queue, keeping its
+ * original attributes and recording why it was rejected. Retrying it would only fail again.
+ */
+async function sendToDeadLetterQueue(log: Logger, record: SQSRecord, failureReason: string) {
+	const messageAttributes: Record<string, MessageAttributeValue> = {};
+	for (const [name, attribute] of Object.entries(record.messageAttributes)) {
+		if (attribute.stringValue !== undefined) {
+			messageAttributes[name] = {
+				DataType: attribute.dataType,
+				StringValue: attribute.stringValue,
+			};
+		}
+	}
+
+	await sqsClient.send(
+		new SendMessageCommand({
+			QueueUrl: DEAD_LETTER_QUEUE_URL,
+			MessageBody: record.body,
+			MessageAttributes: {
+				...messageAttributes,
+				failureReason: {
+					DataType: "String",
+					StringValue: failureReason.slice(0, MAX_FAILURE_REASON_LENGTH),
 				},
+			},
+		})
+	);
+	log.error("Message moved to the DLQ", { failureReason });
+}
+
+/**
+ * Set by the API handler. Messages queued before it was added have none.
+ */
+function getCorrelationId(record: SQSRecord): string | undefined {
+	return record.messageAttributes.correlationId?.stringValue;
+}
+
+/**
+ * Sends the emails for one queue message. Throws when the message should be retried.
+ */
+async function processRecord(registry: SalesRepRegistry, record: SQSRecord): Promise<void> {
+	const correlationId = getCorrelationId(record);
+	const recordLog = logger.child({ correlationId, messageId: record.messageId });
+
+	const parsed = parseRecord(record);
+	if ("rejectionReason" in parsed) {
+		// Reporting success deletes the message from the quote request queue
+		await sendToDeadLetterQueue(recordLog, record, parsed.rejectionReason);
+		return;
+	}
+
+	const { quoteId } = parsed.quoteRequest;
+	const log = recordLog.child({ quoteId });
+
+	try {
+		const { quoteRequest } = parsed;
+
+		// SQS can deliver a message more than once: skip emails already sent for this quote
+		const sentEmails = await getSentEmails(quoteId);
+		const routing = routeQuoteRequest(registry, quoteRequest);
+		const { destinationEmails, assignedRepName, territoryNote, sandboxedEmails } = routing;
+		if (assignedRepName) {
+			await recordAssignedRep(log, quoteId, assignedRepName);
+		}
+
+		if (sentEmails.has("repNotification")) {
+			log.info("Rep notification was already sent, skipping");
+		} else {
+			const { subject, htmlBody, textBody } = renderRepNotification(quoteRequest, territoryNote);
+			// The sandbox inbox sees who the notification was meant for
+			const sandboxSubject =
+				sandboxedEmails && `[Sandbox for ${sandboxedEmails.join(", ")}] ${subject}`;
+			const pdf = await renderQuoteRequestPdfAttachment(quoteRequest, territoryNote);
+			const itemsExport = renderQuoteExportAttachment(
+				quoteRequest,
+				QUOTE_EXPORT_COLUMNS,
+				QUOTE_EXPORT_FORMAT
+			);
+
+			await sendEmail({
+				quoteId,
+				email: "repNotification",
+				correlationId,
+				toAddresses: destinationEmails,
+				replyToAddresses: [quoteRequest.contactInfo.email],
+				subject: sandboxSubject ?? subject,
+				htmlBody,
+				textBody,
+				attachments: [pdf, itemsExport],
 			});
+			log.info("Rep notification sent", { recipients: destinationEmails });
+			recordMetric(
+				QUOTE_METRICS.queueToEmailLatency,
+				{},
+				Date.now() - Number(record.attributes.SentTimestamp),
+				"Milliseconds"
+			);
+			await recordEmailSent(log, quoteId, "repNotification");
+			await recordQuoteQueued(log, quoteId);
+			// Published with the rep notification so a retried message does not publish it again
+			await publishQuoteRequested(log, correlationId, quoteRequest, routing);
+		}
 
-			await sesClient.send(command);
-			console.log("Email sent successfully");
-		} catch (error) {
-			console.error("Error processing record:", error);
-			// Throwing the error will cause the message to be retried
-			// After 3 failures, it will go to the DLQ
-			throw error;
+		if (!sentEmails.has("customerAcknowledgement")) {
+			await sendCustomerAcknowledgement(
+				log,
+				correlationId,
+				quoteRequest,
+				destinationEmails,
+				assignedRepName
+			);
 		}
+	} catch (error) {
+		await recordProcessingError(quoteId, error, new Date()).catch((recordError) =>
+			log.error("Error recording processing error", { error: recordError })
+		);
+		throw error;
 	}
+}
+
+/**
+ * Lambda handler for processing SQS messages and sending emails. Records of a batch are
+ * processed concurrently; only the ones that failed are reported back to SQS to be retried,
+ * and after 3 failures a message goes to the DLQ.
+ */
+export const handler = async (event: SQSEvent): Promise<SQSBatchResponse> => {
+	logger.info("Processing quote requests", { count: event.Records.length });
+
+	// Throwing here fails the whole batch, which SQS retries
+	const registry = await SALES_REP_REGISTRY_LOADER();
+	const results = await settleWithConcurrency(event.Records, RECORD_CONCURRENCY, (record) =>
+		processRecord(registry, record)
+	);
+
+	const batchItemFailures: SQSBatchResponse["batchItemFailures"] = [];
+	results.forEach((result, index) => {
+		if (result.status === "rejected") {
+			const record = event.Records[index];
+			logger.error("Error processing message", {
+				correlationId: getCorrelationId(record),
+				messageId: record.messageId,
+				error: result.reason,
+			});
+			recordMetric(QUOTE_METRICS.recordFailed);
+			batchItemFailures.push({ itemIdentifier: record.messageId });
+		}
+	});
+
+	return { batchItemFailures };
 };
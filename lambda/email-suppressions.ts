@@ -0,0 +1,59 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, GetCommand, PutCommand } from "@aws-sdk/lib-dynamodb";
+
+const dynamoDbClient = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+	marshallOptions: { removeUndefinedValues: true },
+});
+
+const EMAIL_SUPPRESSIONS_TABLE_NAME = process.env.EMAIL_SUPPRESSIONS_TABLE_NAME;
+
+export type SuppressionReason = "bounce" | "complaint";
+
+export interface EmailSuppression {
+	email: string;
+	reason: SuppressionReason;
+	suppressedAt: string;
+
+	/**
+	 * Quote whose email bounced or was marked as spam
+	 */
+	quoteId?: string;
+
+	/**
+	 * SES bounce sub type or complaint feedback type, e.g. "NoEmail" or "abuse"
+	 */
+	detail?: string;
+}
+
+/**
+ * Addresses are compared case-insensitively, as mailbox providers do in practice
+ */
+function normalizeEmail(email: string): string {
+	return email.trim().toLowerCase();
+}
+
+/**
+ * Returns the suppression for an address, or undefined when customer-facing mail may be sent to it
+ */
+export async function getEmailSuppression(email: string): Promise<EmailSuppression | undefined> {
+	const result = await dynamoDbClient.send(
+		new GetCommand({
+			TableName: EMAIL_SUPPRESSIONS_TABLE_NAME,
+			Key: { email: normalizeEmail(email) },
+		})
+	);
+	return result.Item as EmailSuppression | undefined;
+}
+
+/**
+ * Suppresses an address from future customer-facing mail. A later event for the same address
+ * replaces the earlier one.
+ */
+export async function suppressEmail(suppression: EmailSuppression): Promise<void> {
+	await dynamoDbClient.send(
+		new PutCommand({
+			TableName: EMAIL_SUPPRESSIONS_TABLE_NAME,
+			Item: { ...suppression, email: normalizeEmail(suppression.email) },
+		})
+	);
+}
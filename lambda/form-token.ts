@@ -0,0 +1,58 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * Humans take at least a few seconds to fill in the quote form; bots usually post immediately
+ */
+export const MIN_FORM_FILL_MS = 3_000;
+
+/**
+ * Tokens older than this were not issued for the current visit
+ */
+export const MAX_FORM_TOKEN_AGE_MS = 24 * 60 * 60 * 1000;
+
+export type FormTokenCheck = "valid" | "missing" | "invalid" | "too_fast" | "expired";
+
+function sign(issuedAt: string, secret: string): string {
+	return createHmac("sha256", secret).update(issuedAt).digest("base64url");
+}
+
+/**
+ * Issues a token recording when the quote form was loaded, e.g. "1760000000000.<signature>"
+ */
+export function issueFormToken(secret: string, now: Date): string {
+	const issuedAt = String(now.getTime());
+	return `${issuedAt}.${sign(issuedAt, secret)}`;
+}
+
+/**
+ * Checks that a form token was issued by us and that the form was not submitted too quickly
+ */
+export function verifyFormToken(
+	token: string | undefined,
+	secret: string,
+	now: Date
+): FormTokenCheck {
+	if (!token) {
+		return "missing";
+	}
+
+	const [issuedAt, signature, ...rest] = token.split(".");
+	if (!/^\d+$/.test(issuedAt ?? "") || !signature || rest.length > 0) {
+		return "invalid";
+	}
+
+	const expected = Buffer.from(sign(issuedAt, secret));
+	const actual = Buffer.from(signature);
+	if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+		return "invalid";
+	}
+
+	const ageMs = now.getTime() - Number(issuedAt);
+	if (ageMs < MIN_FORM_FILL_MS) {
+		return "too_fast";
+	}
+	if (ageMs > MAX_FORM_TOKEN_AGE_MS) {
+		return "expired";
+	}
+	return "valid";
+}
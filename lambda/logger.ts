@@ -0,0 +1,162 @@
+import { createHmac } from "node:crypto";
+
+/**
+ * What happens to a personal data field before it is logged
+ */
+export type PiiAction = "plain" | "hash" | "redact";
+
+export type PiiPolicy = Record<string, PiiAction>;
+
+/**
+ * Applied to log fields with these names at any depth. Hashing keeps values correlatable across
+ * log lines (e.g. all submissions from one IP) without logging the value itself. Hashes are keyed
+ * with LOG_HASH_KEY, so nobody reading the logs can recompute them for a guessed value.
+ */
+export const DEFAULT_PII_POLICY: PiiPolicy = {
+	email: "hash",
+	recipients: "hash",
+	sourceIp: "hash",
+	userAgent: "hash",
+	phone: "redact",
+	customerName: "redact",
+};
+
+/**
+ * Parses LOG_PII_POLICY, a comma-separated list of field=action overrides,
+ * e.g. "email=redact,userAgent=plain"
+ */
+export function parsePiiPolicy(value: string | undefined): PiiPolicy {
+	const policy = { ...DEFAULT_PII_POLICY };
+
+	for (const entry of (value ?? "").split(",")) {
+		if (entry.trim().length === 0) {
+			continue;
+		}
+		const [field, action] = entry.split("=").map((part) => part.trim());
+		if (!field || (action !== "plain" && action !== "hash" && action !== "redact")) {
+			throw new Error(`Invalid LOG_PII_POLICY entry "${entry}": expected field=plain|hash|redact`);
+		}
+		policy[field] = action;
+	}
+
+	return policy;
+}
+
+const PII_POLICY = parsePiiPolicy(process.env.LOG_PII_POLICY);
+
+/**
+ * The stage's secret key for hashing personal data. Where it is unset, e.g. in scripts, hashed
+ * fields are redacted instead.
+ */
+const LOG_HASH_KEY = process.env.LOG_HASH_KEY;
+
+function hashValue(value: string, key: string): string {
+	const hash = createHmac("sha256", key).update(value.trim().toLowerCase()).digest("hex");
+	return `hmac:${hash.slice(0, 16)}`;
+}
+
+function applyAction(action: PiiAction, value: unknown): unknown {
+	if (action === "plain" || value === undefined || value === null) {
+		return value;
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => applyAction(action, item));
+	}
+	if (action === "hash" && typeof value === "string" && LOG_HASH_KEY) {
+		return hashValue(value, LOG_HASH_KEY);
+	}
+	return "[redacted]";
+}
+
+/**
+ * Personal data found in free text, e.g. the recipient addresses SES and SQS quote in their error
+ * messages, and the field whose policy applies to it
+ */
+const TEXT_PII_PATTERNS: [RegExp, string][] = [
+	[/[^\s@/<>"'(),;:[\]]+@[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}/gi, "email"],
+	[/\b(\d{1,3}\.){3}\d{1,3}\b/g, "sourceIp"],
+];
+
+/**
+ * Applies the PII policy to the email and IP addresses in a text such as an error message
+ */
+export function sanitizeText(text: string, policy: PiiPolicy = PII_POLICY): string {
+	return TEXT_PII_PATTERNS.reduce(
+		(sanitized, [pattern, field]) =>
+			sanitized.replace(pattern, (match) => String(applyAction(policy[field] ?? "plain", match))),
+		text
+	);
+}
+
+/**
+ * Applies the PII policy to log fields, including nested objects and arrays
+ */
+export function sanitizeLogFields(value: unknown, policy: PiiPolicy = PII_POLICY): unknown {
+	if (value instanceof Error) {
+		return {
+			name: value.name,
+			message: sanitizeText(value.message, policy),
+			stack: value.stack && sanitizeText(value.stack, policy),
+		};
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => sanitizeLogFields(item, policy));
+	}
+	if (typeof value !== "object" || value === null) {
+		return value;
+	}
+
+	return Object.fromEntries(
+		Object.entries(value).map(([key, fieldValue]) => {
+			const action = policy[key];
+			return [
+				key,
+				action ? applyAction(action, fieldValue) : sanitizeLogFields(fieldValue, policy),
+			];
+		})
+	);
+}
+
+type LogLevel = "debug" | "info" | "warn" | "error";
+
+export interface Logger {
+	debug(message: string, fields?: Record<string, unknown>): void;
+	info(message: string, fields?: Record<string, unknown>): void;
+	warn(message: string, fields?: Record<string, unknown>): void;
+	error(message: string, fields?: Record<string, unknown>): void;
+
+	/**
+	 * Returns a logger that adds these fields, e.g. the correlation ID, to every line
+	 */
+	child(fields: Record<string, unknown>): Logger;
+}
+
+/**
+ * Creates a logger that writes one JSON object per line, which CloudWatch Logs Insights can
+ * query by field. Every field passes through the PII policy.
+ */
+export function createLogger(baseFields: Record<string, unknown> = {}): Logger {
+	function write(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+		const line = JSON.stringify({
+			level,
+			message,
+			...(sanitizeLogFields({ ...baseFields, ...fields }) as Record<string, unknown>),
+		});
+
+		if (level === "error") {
+			console.error(line);
+		} else if (level === "warn") {
+			console.warn(line);
+		} else {
+			console.log(line);
+		}
+	}
+
+	return {
+		debug: (message, fields) => write("debug", message, fields),
+		info: (message, fields) => write("info", message, fields),
+		warn: (message, fields) => write("warn", message, fields),
+		error: (message, fields) => write("error", message, fields),
+		child: (fields) => createLogger({ ...baseFields, ...fields }),
+	};
+}
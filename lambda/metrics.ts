@@ -0,0 +1,75 @@
+/**
+ * CloudWatch namespace for the quote pipeline's custom metrics. Stages other than production
+ * set METRICS_NAMESPACE on their Lambdas to publish elsewhere.
+ */
+export const METRICS_NAMESPACE = "AsDistributors/Quotes";
+
+/**
+ * Custom metrics published by the Lambdas. The monitoring dashboard and alarms read these names.
+ */
+export const QUOTE_METRICS = {
+	accepted: "QuoteRequestAccepted",
+	/**
+	 * Dimension Reason: why the API handler rejected the submission
+	 */
+	rejected: "QuoteRequestRejected",
+	duplicate: "DuplicateQuoteRequest",
+	idempotentReplay: "IdempotentReplay",
+	/**
+	 * Time from the message being queued to the rep notification being sent
+	 */
+	queueToEmailLatency: "QueueToEmailLatency",
+	/**
+	 * The email processor failed a queued quote request, which SQS will retry. Reported per record:
+	 * with partial batch responses the invocation itself still succeeds.
+	 */
+	recordFailed: "QuoteRecordFailed",
+	/**
+	 * A rep notification hard-bounced: the rep's address in the registry needs fixing
+	 */
+	repEmailBounced: "RepEmailBounced",
+	/**
+	 * Dimension Email: the email a recipient marked as spam
+	 */
+	emailComplaint: "EmailComplaint",
+	/**
+	 * A customer acknowledgement was not sent because the address is suppressed
+	 */
+	customerEmailSuppressed: "CustomerEmailSuppressed",
+	/**
+	 * The product catalog could not be loaded, so quote items were accepted unchecked
+	 */
+	catalogUnavailable: "CatalogUnavailable",
+	/**
+	 * The email processor could not publish a QuoteRequested event, so no integration saw the quote
+	 */
+	quoteEventPublishFailed: "QuoteEventPublishFailed",
+} as const;
+
+/**
+ * Publishes a metric using the CloudWatch embedded metric format: the log line is turned into a
+ * metric by CloudWatch Logs, so no API call or extra permission is needed.
+ */
+export function recordMetric(
+	name: string,
+	dimensions: Record<string, string> = {},
+	value = 1,
+	unit: "Count" | "Milliseconds" = "Count"
+): void {
+	console.log(
+		JSON.stringify({
+			_aws: {
+				Timestamp: Date.now(),
+				CloudWatchMetrics: [
+					{
+						Namespace: process.env.METRICS_NAMESPACE || METRICS_NAMESPACE,
+						Dimensions: [Object.keys(dimensions)],
+						Metrics: [{ Name: name, Unit: unit }],
+					},
+				],
+			},
+			...dimensions,
+			[name]: value,
+		})
+	);
+}
@@ -0,0 +1,111 @@
+import { randomBytes } from "node:crypto";
+
+export interface MimeMessage {
+	from: string;
+	to: string[];
+	replyTo?: string[];
+	subject: string;
+	htmlBody: string;
+	textBody: string;
+	date?: Date;
+	attachments?: MimeAttachment[];
+}
+
+export interface MimeAttachment {
+	filename: string;
+	contentType: string;
+	content: Uint8Array;
+}
+
+const BASE64_LINE_LENGTH = 76;
+
+function createBoundary(): string {
+	return `----=_Part_${randomBytes(12).toString("hex")}`;
+}
+
+/**
+ * Encodes a header value as an RFC 2047 encoded-word when it contains non-ASCII characters
+ */
+function encodeHeaderValue(value: string): string {
+	if (/^[\x20-\x7e]*$/.test(value)) {
+		return value;
+	}
+	return `=?UTF-8?B?${Buffer.from(value, "utf-8").toString("base64")}?=`;
+}
+
+function encodeBase64Body(content: string | Buffer): string {
+	const base64 = Buffer.from(content).toString("base64");
+	const lines: string[] = [];
+	for (let index = 0; index < base64.length; index += BASE64_LINE_LENGTH) {
+		lines.push(base64.slice(index, index + BASE64_LINE_LENGTH));
+	}
+	return lines.join("\r\n");
+}
+
+function textPart(contentType: string, content: string): string {
+	return [
+		`Content-Type: ${contentType}; charset=UTF-8`,
+		"Content-Transfer-Encoding: base64",
+		"",
+		encodeBase64Body(content),
+	].join("\r\n");
+}
+
+function attachmentPart(attachment: MimeAttachment): string {
+	const filename = encodeHeaderValue(attachment.filename.replace(/"/g, ""));
+	return [
+		`Content-Type: ${attachment.contentType}; name="${filename}"`,
+		`Content-Disposition: attachment; filename="${filename}"`,
+		"Content-Transfer-Encoding: base64",
+		"",
+		encodeBase64Body(Buffer.from(attachment.content)),
+	].join("\r\n");
+}
+
+/**
+ * The text and HTML bodies as a multipart/alternative part, without message headers
+ */
+function alternativePart(message: MimeMessage): string {
+	const boundary = createBoundary();
+
+	return [
+		`Content-Type: multipart/alternative; boundary="${boundary}"`,
+		"",
+		`--${boundary}`,
+		textPart("text/plain", message.textBody),
+		`--${boundary}`,
+		textPart("text/html", message.htmlBody),
+		`--${boundary}--`,
+	].join("\r\n");
+}
+
+/**
+ * Builds a MIME message with text and HTML bodies. With attachments, the bodies are wrapped in
+ * a multipart/mixed message that carries the attachments after them.
+ */
+export function buildMimeMessage(message: MimeMessage): string {
+	const headers = [
+		`From: ${message.from}`,
+		`To: ${message.to.join(", ")}`,
+		...(message.replyTo?.length ? [`Reply-To: ${message.replyTo.join(", ")}`] : []),
+		`Subject: ${encodeHeaderValue(message.subject)}`,
+		`Date: ${(message.date ?? new Date()).toUTCString()}`,
+		"MIME-Version: 1.0",
+	];
+
+	if (!message.attachments?.length) {
+		return [...headers, alternativePart(message), ""].join("\r\n");
+	}
+
+	const boundary = createBoundary();
+	return [
+		...headers,
+		`Content-Type: multipart/mixed; boundary="${boundary}"`,
+		"",
+		`--${boundary}`,
+		alternativePart(message),
+		...message.attachments.flatMap((attachment) => [`--${boundary}`, attachmentPart(attachment)]),
+		`--${boundary}--`,
+		"",
+	].join("\r\n");
+}
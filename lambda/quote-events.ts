@@ -0,0 +1,98 @@
+import type {
+	QueuedQuoteRequest,
+	QuoteItem,
+	QuoteMetadata,
+	SalesRepOption,
+	ZipLocation,
+} from "./types";
+
+/**
+ * Source of the events the quote pipeline publishes to its EventBridge bus. Subscribers match on
+ * it and on the detail type.
+ */
+export const QUOTE_EVENT_SOURCE = "as-distributors.quotes";
+
+export const QUOTE_REQUESTED = "QuoteRequested";
+
+/**
+ * Bumped when a field of QuoteRequestedDetail changes incompatibly, so subscribers can tell
+ * versions apart
+ */
+export const QUOTE_REQUESTED_EVENT_VERSION = 1;
+
+/**
+ * Detail of a QuoteRequested event: a quote request that passed validation and was routed to a
+ * rep. Published once the rep notification is sent. Delivery is at least once, so subscribers
+ * should use quoteId to ignore repeats.
+ */
+export interface QuoteRequestedDetail {
+	version: typeof QUOTE_REQUESTED_EVENT_VERSION;
+	quoteId: string;
+	submittedAt: string;
+	/**
+	 * Ties the event to the API response and the email processor's logs
+	 */
+	correlationId?: string;
+	locale?: QueuedQuoteRequest["locale"];
+	customer: {
+		name: string;
+		companyName: string;
+		email: string;
+		phone: string;
+		zipCode: string;
+		location?: ZipLocation;
+	};
+	salesRep: {
+		/**
+		 * What the customer picked: a rep's name or "New customer"
+		 */
+		selected: SalesRepOption;
+		/**
+		 * The rep the quote was routed to. Absent when a new customer's zip code is outside
+		 * every territory and all new customer reps were notified.
+		 */
+		assigned?: string;
+	};
+	items: QuoteItem[];
+	totals: Omit<QuoteMetadata, "submittedAt">;
+	/**
+	 * Set when the same customer submitted the same items shortly before
+	 */
+	duplicateOfQuoteId?: string;
+	/**
+	 * The rep notification went to the stage's sandbox inbox rather than the reps
+	 */
+	sandboxed: boolean;
+}
+
+export function buildQuoteRequestedDetail(
+	quoteRequest: QueuedQuoteRequest,
+	routing: { assignedRepName?: string; sandboxed: boolean },
+	correlationId: string | undefined
+): QuoteRequestedDetail {
+	const { contactInfo, metadata } = quoteRequest;
+
+	return {
+		version: QUOTE_REQUESTED_EVENT_VERSION,
+		quoteId: quoteRequest.quoteId,
+		submittedAt: metadata.submittedAt,
+		correlationId,
+		locale: quoteRequest.locale,
+		customer: {
+			name: contactInfo.name,
+			companyName: contactInfo.companyName,
+			email: contactInfo.email,
+			phone: contactInfo.phone,
+			zipCode: contactInfo.zipCode,
+			location: quoteRequest.requestContext.location,
+		},
+		salesRep: { selected: contactInfo.salesRep, assigned: routing.assignedRepName },
+		items: quoteRequest.quoteItems,
+		totals: {
+			totalItems: metadata.totalItems,
+			totalUniqueProducts: metadata.totalUniqueProducts,
+		},
+		duplicateOfQuoteId: quoteRequest.duplicateOfQuoteId,
+		sandboxed: routing.sandboxed,
+	};
+}
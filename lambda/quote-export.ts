@@ -0,0 +1,168 @@
+import type { MimeAttachment } from "./mime";
+import type { QueuedQuoteRequest, QuoteItem } from "./types";
+
+/**
+ * Values an export column can hold. Each is read from a quote request and one of its items,
+ * so an export has one row per quote item.
+ */
+const EXPORT_FIELDS = {
+	quoteId: (quoteRequest) => quoteRequest.quoteId,
+	submittedAt: (quoteRequest) => quoteRequest.metadata.submittedAt,
+	itemNumber: (_, item) => item.itemNumber,
+	productName: (_, item) => item.productName,
+	variantLabel: (_, item) => item.variantLabel ?? "",
+	variant: (_, item) => item.variantValue ?? "",
+	quantity: (_, item) => item.quantity,
+	customerName: (quoteRequest) => quoteRequest.contactInfo.name,
+	companyName: (quoteRequest) => quoteRequest.contactInfo.companyName,
+	customerEmail: (quoteRequest) => quoteRequest.contactInfo.email,
+	customerPhone: (quoteRequest) => quoteRequest.contactInfo.phone,
+	zipCode: (quoteRequest) => quoteRequest.contactInfo.zipCode,
+	salesRep: (quoteRequest) => quoteRequest.contactInfo.salesRep,
+} satisfies Record<string, (quoteRequest: QueuedQuoteRequest, item: QuoteItem) => string | number>;
+
+export type ExportField = keyof typeof EXPORT_FIELDS;
+
+export interface ExportColumn {
+	field: ExportField;
+
+	/**
+	 * Column name in the export, e.g. what the ordering software expects in the CSV header
+	 */
+	header: string;
+}
+
+/**
+ * Used when QUOTE_EXPORT_COLUMNS is not set. The customer is identified by company, since that
+ * is who the order is for.
+ */
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = [
+	{ field: "quoteId", header: "Quote ID" },
+	{ field: "itemNumber", header: "Item Number" },
+	{ field: "variant", header: "Variant" },
+	{ field: "quantity", header: "Quantity" },
+	{ field: "companyName", header: "Customer" },
+	{ field: "zipCode", header: "Zip Code" },
+];
+
+function isExportField(field: string): field is ExportField {
+	return Object.hasOwn(EXPORT_FIELDS, field);
+}
+
+/**
+ * Parses QUOTE_EXPORT_COLUMNS, a comma-separated list of field=header pairs in column order,
+ * e.g. "itemNumber=ITEM_NO,variant=OPTION,quantity=QTY". A field without a header keeps its name.
+ */
+export function parseExportColumns(value: string | undefined): ExportColumn[] {
+	if (!value?.trim()) {
+		return DEFAULT_EXPORT_COLUMNS;
+	}
+
+	return value.split(",").map((entry) => {
+		const [field, header] = entry.split("=").map((part) => part.trim());
+		if (!field || !isExportField(field)) {
+			throw new Error(
+				`Invalid QUOTE_EXPORT_COLUMNS entry "${entry}": expected field=header, where field is one of ${Object.keys(EXPORT_FIELDS).join(", ")}`
+			);
+		}
+		return { field, header: header || field };
+	});
+}
+
+type ExportRow = (string | number)[];
+
+export interface QuoteExportFormat {
+	contentType: string;
+	extension: string;
+	render(columns: readonly ExportColumn[], rows: ExportRow[]): string;
+}
+
+/**
+ * Quotes a CSV value when needed (RFC 4180). Text starting with a formula character is prefixed
+ * with an apostrophe so a spreadsheet opening the file does not run customer input as a formula.
+ */
+function toCsvValue(value: string | number): string {
+	if (typeof value === "number") {
+		return String(value);
+	}
+	const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const csvFormat: QuoteExportFormat = {
+	contentType: "text/csv; charset=UTF-8",
+	extension: "csv",
+	render: (columns, rows) =>
+		[columns.map(({ header }) => header), ...rows]
+			.map((row) => `${row.map(toCsvValue).join(",")}\r\n`)
+			.join(""),
+};
+
+/**
+ * One JSON object per item, keyed by column header
+ */
+const jsonLinesFormat: QuoteExportFormat = {
+	contentType: "application/x-ndjson; charset=UTF-8",
+	extension: "jsonl",
+	render: (columns, rows) =>
+		rows
+			.map(
+				(row) =>
+					`${JSON.stringify(Object.fromEntries(columns.map(({ header }, index) => [header, row[index]])))}\n`
+			)
+			.join(""),
+};
+
+export const QUOTE_EXPORT_FORMATS = {
+	csv: csvFormat,
+	jsonl: jsonLinesFormat,
+} satisfies Record<string, QuoteExportFormat>;
+
+export type QuoteExportFormatName = keyof typeof QUOTE_EXPORT_FORMATS;
+
+/**
+ * Parses QUOTE_EXPORT_FORMAT, which defaults to CSV
+ */
+export function parseQuoteExportFormat(value: string | undefined): QuoteExportFormatName {
+	const name = value?.trim() || "csv";
+	if (!Object.hasOwn(QUOTE_EXPORT_FORMATS, name)) {
+		throw new Error(
+			`Invalid QUOTE_EXPORT_FORMAT "${name}": expected one of ${Object.keys(QUOTE_EXPORT_FORMATS).join(", ")}`
+		);
+	}
+	return name as QuoteExportFormatName;
+}
+
+/**
+ * Exports the items of one or more quote requests, one row per item. Quote records from the
+ * quotes table are quote requests too, so stored quotes export the same way.
+ */
+export function exportQuoteItems(
+	quoteRequests: readonly QueuedQuoteRequest[],
+	columns: readonly ExportColumn[],
+	formatName: QuoteExportFormatName
+): string {
+	const rows = quoteRequests.flatMap((quoteRequest) =>
+		quoteRequest.quoteItems.map((item) =>
+			columns.map(({ field }) => EXPORT_FIELDS[field](quoteRequest, item))
+		)
+	);
+	return QUOTE_EXPORT_FORMATS[formatName].render(columns, rows);
+}
+
+/**
+ * The items of a quote request as an email attachment named after the quote,
+ * e.g. ASD-2026-000123-items.csv
+ */
+export function renderQuoteExportAttachment(
+	quoteRequest: QueuedQuoteRequest,
+	columns: readonly ExportColumn[],
+	formatName: QuoteExportFormatName
+): MimeAttachment {
+	const format = QUOTE_EXPORT_FORMATS[formatName];
+	return {
+		filename: `${quoteRequest.quoteId}-items.${format.extension}`,
+		contentType: format.contentType,
+		content: Buffer.from(exportQuoteItems([quoteRequest], columns, formatName), "utf-8"),
+	};
+}
@@ -0,0 +1,107 @@
+import Ajv, { type ErrorObject } from "ajv";
+import productCatalogSchema = require("../schema/product-catalog.v1.schema.json");
+import quoteRequestPayloadSchema = require("../schema/quote-request-payload.v1.schema.json");
+import type { ProductCatalog } from "../schema/product-catalog.v1";
+import {
+	QUOTE_REQUEST_SCHEMA_VERSION,
+	type QueuedQuoteRequest,
+	type QuoteRequestPayload,
+} from "./types";
+
+const ajv = new Ajv({ allErrors: true });
+
+const QUOTE_ID_PATTERN = "^ASD-[0-9]{4}-[0-9]{6,}$";
+
+const validatePayloadSchema = ajv.compile<QuoteRequestPayload>(quoteRequestPayloadSchema);
+const validateCatalogSchema = ajv.compile<ProductCatalog>(productCatalogSchema);
+
+/**
+ * Queued messages are the payload plus the fields added by the API handler.
+ * metadata is optional in the payload but always computed by the API handler.
+ */
+const validateQueuedSchema = ajv.compile<QueuedQuoteRequest>({
+	allOf: [{ $ref: quoteRequestPayloadSchema.$id }],
+	type: "object",
+	required: ["schemaVersion", "quoteId", "metadata", "requestContext"],
+	properties: {
+		schemaVersion: { const: QUOTE_REQUEST_SCHEMA_VERSION },
+		quoteId: { type: "string", pattern: QUOTE_ID_PATTERN },
+		duplicateOfQuoteId: { type: "string", pattern: QUOTE_ID_PATTERN },
+		requestContext: {
+			type: "object",
+			required: ["receivedAt", "apiRequestId", "sourceIp", "userAgent"],
+			properties: {
+				receivedAt: { type: "string" },
+				apiRequestId: { type: "string" },
+				sourceIp: { type: "string" },
+				userAgent: { type: "string" },
+				location: {
+					type: "object",
+					required: ["city", "state"],
+					properties: { city: { type: "string" }, state: { type: "string" } },
+				},
+			},
+		},
+	},
+});
+
+function formatInstancePath(instancePath: string): string {
+	return instancePath
+		.split("/")
+		.filter((segment) => segment.length > 0)
+		.map((segment, index) =>
+			/^\d+$/.test(segment) ? `[${segment}]` : `${index ? "." : ""}${segment}`
+		)
+		.join("");
+}
+
+/**
+ * Turns schema errors into messages such as "contactInfo.email is invalid"
+ */
+function formatErrors(errors: ErrorObject[] | null | undefined): string[] {
+	const messages = (errors ?? [])
+		// allOf only wraps the errors already reported for the referenced schema
+		.filter((error) => error.keyword !== "allOf")
+		.map((error) => {
+			const field = formatInstancePath(error.instancePath);
+
+			if (error.keyword === "required") {
+				const missing = String(error.params.missingProperty);
+				return `${field ? `${field}.` : ""}${missing} is required`;
+			}
+			if (error.keyword === "additionalProperties") {
+				const extra = String(error.params.additionalProperty);
+				return `${field ? `${field}.` : ""}${extra} is not allowed`;
+			}
+			if (error.keyword === "pattern") {
+				return `${field} is invalid`;
+			}
+			return `${field || "payload"} ${error.message}`;
+		});
+
+	return [...new Set(messages)];
+}
+
+/**
+ * Validates a submitted quote request against the versioned JSON schema.
+ * Returns an empty array when the payload is valid.
+ */
+export function validateQuoteRequestPayload(value: unknown): string[] {
+	return validatePayloadSchema(value) ? [] : formatErrors(validatePayloadSchema.errors);
+}
+
+/**
+ * Validates a message read from the quote request queue.
+ * Returns an empty array when the message is valid.
+ */
+export function validateQueuedQuoteRequest(value: unknown): string[] {
+	return validateQueuedSchema(value) ? [] : formatErrors(validateQueuedSchema.errors);
+}
+
+/**
+ * Validates a product catalog published with the website.
+ * Returns an empty array when the catalog is valid.
+ */
+export function validateProductCatalog(value: unknown): string[] {
+	return validateCatalogSchema(value) ? [] : formatErrors(validateCatalogSchema.errors);
+}
@@ -0,0 +1,490 @@
+import { ConditionalCheckFailedException, DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import {
+	BatchGetCommand,
+	type BatchGetCommandOutput,
+	DynamoDBDocumentClient,
+	GetCommand,
+	PutCommand,
+	QueryCommand,
+	type QueryCommandOutput,
+	UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { sanitizeText } from "./logger";
+import type { QueuedQuoteRequest } from "./types";
+
+const dynamoDbClient = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+	marshallOptions: { removeUndefinedValues: true },
+});
+
+const QUOTES_TABLE_NAME = process.env.QUOTES_TABLE_NAME;
+const QUOTE_ID_PREFIX = "ASD";
+const QUOTE_ID_SEQUENCE_DIGITS = 6;
+
+/**
+ * Index of every quote by submission time. Counter items have no recordType, so they are not in it.
+ */
+const BY_CREATED_AT_INDEX = "byCreatedAt";
+const QUOTE_RECORD_TYPE = "quote";
+
+/**
+ * Where a quote is in the sales process. Reps move it forward from the admin API. A quote is
+ * "failed" when the API handler could not queue it, so no rep was notified about it.
+ */
+export const QUOTE_STATUSES = ["new", "contacted", "quoted", "won", "lost", "failed"] as const;
+
+export type QuoteStatus = (typeof QUOTE_STATUSES)[number];
+
+export const QUOTE_STATUS_TRANSITIONS: Record<QuoteStatus, readonly QuoteStatus[]> = {
+	new: ["contacted"],
+	contacted: ["quoted"],
+	quoted: ["won", "lost"],
+	won: [],
+	lost: [],
+	failed: [],
+};
+
+/**
+ * A status change or reassignment made through the admin API
+ */
+export interface QuoteChange {
+	status?: QuoteStatus;
+	assignedRep?: string;
+	changedAt: string;
+
+	/**
+	 * Email of the signed-in rep who made the change
+	 */
+	changedBy: string;
+}
+
+export interface QuoteRecord extends QueuedQuoteRequest {
+	createdAt: string;
+
+	/**
+	 * Quotes stored before statuses were introduced have none, which means "new"
+	 */
+	status?: QuoteStatus;
+
+	/**
+	 * Name of the rep who owns the quote: the rep the customer picked, the territory owner for
+	 * new customers, or whoever it was reassigned to. Unset when no single rep owns it.
+	 */
+	assignedRep?: string;
+
+	/**
+	 * Changes made through the admin API, oldest first
+	 */
+	changes?: QuoteChange[];
+
+	/**
+	 * ID of the API request that submitted the quote, found on every log line about it
+	 */
+	correlationId?: string;
+
+	/**
+	 * Last error the email processor hit for this quote, kept for DLQ inspection
+	 */
+	lastError?: string;
+	lastErrorAt?: string;
+
+	/**
+	 * SES delivery, bounce and complaint events for the emails sent for this quote, oldest first
+	 */
+	emailEvents?: EmailDeliveryEvent[];
+}
+
+/**
+ * Formats a quote reference ID, e.g. ASD-2026-000123
+ */
+export function formatQuoteId(year: number, sequence: number): string {
+	return `${QUOTE_ID_PREFIX}-${year}-${String(sequence).padStart(QUOTE_ID_SEQUENCE_DIGITS, "0")}`;
+}
+
+/**
+ * Atomically increments the yearly counter stored in the quotes table and
+ * returns the next human-friendly quote reference ID
+ */
+export async function generateQuoteId(now: Date): Promise<string> {
+	const year = now.getUTCFullYear();
+
+	const result = await dynamoDbClient.send(
+		new UpdateCommand({
+			TableName: QUOTES_TABLE_NAME,
+			Key: { quoteId: `COUNTER#${year}` },
+			UpdateExpression: "ADD #sequence :increment",
+			ExpressionAttributeNames: { "#sequence": "sequence" },
+			ExpressionAttributeValues: { ":increment": 1 },
+			ReturnValues: "UPDATED_NEW",
+		})
+	);
+
+	const sequence = result.Attributes?.sequence;
+	if (typeof sequence !== "number") {
+		throw new Error(`Quote ID counter for ${year} returned no sequence`);
+	}
+
+	return formatQuoteId(year, sequence);
+}
+
+/**
+ * Stores a submitted quote request. Fails if the quote ID is already taken.
+ */
+export async function saveQuote(quote: QuoteRecord): Promise<void> {
+	await dynamoDbClient.send(
+		new PutCommand({
+			TableName: QUOTES_TABLE_NAME,
+			Item: { ...quote, recordType: QUOTE_RECORD_TYPE },
+			ConditionExpression: "attribute_not_exists(quoteId)",
+		})
+	);
+}
+
+/**
+ * Marks a saved quote failed when sending its queue message failed. The send may have failed
+ * after the message was queued, so the quote is kept: once the email processor records the rep
+ * notification, the condition stops the mark and restoreQueuedQuote undoes an earlier one.
+ */
+export async function markQuoteUnqueued(quoteId: string): Promise<void> {
+	try {
+		await dynamoDbClient.send(
+			new UpdateCommand({
+				TableName: QUOTES_TABLE_NAME,
+				Key: { quoteId },
+				UpdateExpression: "SET #status = :failed",
+				ConditionExpression:
+					"attribute_exists(quoteId) AND #status = :new AND attribute_not_exists(repNotificationSentAt)",
+				ExpressionAttributeNames: { "#status": "status" },
+				ExpressionAttributeValues: { ":failed": "failed", ":new": "new" },
+			})
+		);
+	} catch (error) {
+		if (!(error instanceof ConditionalCheckFailedException)) {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Moves a quote marked failed back to "new": its message reached the email processor after all
+ */
+export async function restoreQueuedQuote(quoteId: string): Promise<void> {
+	try {
+		await dynamoDbClient.send(
+			new UpdateCommand({
+				TableName: QUOTES_TABLE_NAME,
+				Key: { quoteId },
+				UpdateExpression: "SET #status = :new",
+				ConditionExpression: "#status = :failed",
+				ExpressionAttributeNames: { "#status": "status" },
+				ExpressionAttributeValues: { ":failed": "failed", ":new": "new" },
+			})
+		);
+	} catch (error) {
+		if (!(error instanceof ConditionalCheckFailedException)) {
+			throw error;
+		}
+	}
+}
+
+/**
+ * Emails sent by the email processor. Each is recorded on the quote as <email>SentAt,
+ * so a redelivered message does not send it again.
+ */
+export const QUOTE_EMAILS = ["repNotification", "customerAcknowledgement"] as const;
+
+export type QuoteEmail = (typeof QUOTE_EMAILS)[number];
+
+export interface EmailDeliveryEvent {
+	email: QuoteEmail;
+	type: "delivery" | "bounce" | "complaint";
+	recipients: string[];
+	occurredAt: string;
+
+	/**
+	 * Bounce type and sub type, e.g. "Permanent/NoEmail", or the complaint feedback type
+	 */
+	detail?: string;
+}
+
+/**
+ * Returns the emails already sent for a quote
+ */
+export async function getSentEmails(quoteId: string): Promise<Set<QuoteEmail>> {
+	const result = await dynamoDbClient.send(
+		new GetCommand({
+			TableName: QUOTES_TABLE_NAME,
+			Key: { quoteId },
+			ProjectionExpression: QUOTE_EMAILS.map((email) => `${email}SentAt`).join(", "),
+			ConsistentRead: true,
+		})
+	);
+	return new Set(QUOTE_EMAILS.filter((email) => result.Item?.[`${email}SentAt`]));
+}
+
+/**
+ * Records that an email was sent for a quote
+ */
+export async function markEmailSent(
+	quoteId: string,
+	email: QuoteEmail,
+	sentAt: Date
+): Promise<void> {
+	await dynamoDbClient.send(
+		new UpdateCommand({
+			TableName: QUOTES_TABLE_NAME,
+			Key: { quoteId },
+			UpdateExpression: "SET #sentAt = :sentAt",
+			ConditionExpression: "attribute_exists(quoteId)",
+			ExpressionAttributeNames: { "#sentAt": `${email}SentAt` },
+			ExpressionAttributeValues: { ":sentAt": sentAt.toISOString() },
+		})
+	);
+}
+
+/**
+ * Appends an SES delivery event to the quote's email history
+ */
+export async function recordEmailEvent(quoteId: string, event: EmailDeliveryEvent): Promise<void> {
+	await dynamoDbClient.send(
+		new UpdateCommand({
+			TableName: QUOTES_TABLE_NAME,
+			Key: { quoteId },
+			UpdateExpression:
+				"SET emailEvents = list_append(if_not_exists(emailEvents, :noEvents), :events)",
+			ConditionExpression: "attribute_exists(quoteId)",
+			ExpressionAttributeValues: { ":noEvents": [], ":events": [event] },
+		})
+	);
+}
+
+/**
+ * Records why processing a quote failed, so DLQ tooling can show it next to the message. The
+ * message is sanitized like a log line, since SES errors can quote recipient addresses.
+ */
+export async function recordProcessingError(
+	quoteId: string,
+	error: unknown,
+	failedAt: Date
+): Promise<void> {
+	await dynamoDbClient.send(
+		new UpdateCommand({
+			TableName: QUOTES_TABLE_NAME,
+			Key: { quoteId },
+			UpdateExpression: "SET lastError = :error, lastErrorAt = :failedAt",
+			ConditionExpression: "attribute_exists(quoteId)",
+			ExpressionAttributeValues: {
+				":error": sanitizeText(String(error)),
+				":failedAt": failedAt.toISOString(),
+			},
+		})
+	);
+}
+
+/**
+ * Loads stored quotes by ID. Quotes that do not exist are missing from the result.
+ */
+export async function getQuotes(quoteIds: string[]): Promise<Map<string, QuoteRecord>> {
+	const tableName = QUOTES_TABLE_NAME ?? "";
+	const quotes = new Map<string, QuoteRecord>();
+	const uniqueIds = [...new Set(quoteIds)];
+
+	// BatchGetItem reads at most 100 keys per request
+	for (let start = 0; start < uniqueIds.length; start += 100) {
+		let keys: Record<string, unknown>[] | undefined = uniqueIds
+			.slice(start, start + 100)
+			.map((quoteId) => ({ quoteId }));
+
+		while (keys && keys.length > 0) {
+			const result: BatchGetCommandOutput = await dynamoDbClient.send(
+				new BatchGetCommand({ RequestItems: { [tableName]: { Keys: keys } } })
+			);
+			for (const item of result.Responses?.[tableName] ?? []) {
+				quotes.set(String(item.quoteId), item as QuoteRecord);
+			}
+			keys = result.UnprocessedKeys?.[tableName]?.Keys;
+		}
+	}
+
+	return quotes;
+}
+
+/**
+ * Loads one stored quote
+ */
+export async function getQuote(quoteId: string): Promise<QuoteRecord | undefined> {
+	const result = await dynamoDbClient.send(
+		new GetCommand({ TableName: QUOTES_TABLE_NAME, Key: { quoteId }, ConsistentRead: true })
+	);
+	return result.Item?.recordType === QUOTE_RECORD_TYPE ? (result.Item as QuoteRecord) : undefined;
+}
+
+/**
+ * Records the rep the email processor routed a new customer's quote to. Does nothing when the
+ * quote already has a rep, so a reassignment made in the admin API is kept.
+ */
+export async function assignQuoteRep(quoteId: string, assignedRep: string): Promise<void> {
+	await dynamoDbClient.send(
+		new UpdateCommand({
+			TableName: QUOTES_TABLE_NAME,
+			Key: { quoteId },
+			UpdateExpression: "SET assignedRep = if_not_exists(assignedRep, :assignedRep)",
+			ConditionExpression: "attribute_exists(quoteId)",
+			ExpressionAttributeValues: { ":assignedRep": assignedRep },
+		})
+	);
+}
+
+/**
+ * Applies a status change and/or reassignment and appends it to the quote's change history.
+ * Fails with ConditionalCheckFailedException when the quote no longer has expectedStatus,
+ * i.e. someone else changed it since it was read.
+ */
+export async function updateQuote(
+	quoteId: string,
+	expectedStatus: QuoteStatus,
+	change: QuoteChange
+): Promise<QuoteRecord> {
+	const assignments = ["changes = list_append(if_not_exists(changes, :noChanges), :changes)"];
+	const values: Record<string, unknown> = {
+		":noChanges": [],
+		":changes": [change],
+		":expectedStatus": expectedStatus,
+	};
+	if (change.status) {
+		assignments.push("#status = :status");
+		values[":status"] = change.status;
+	}
+	if (change.assignedRep) {
+		assignments.push("assignedRep = :assignedRep");
+		values[":assignedRep"] = change.assignedRep;
+	}
+
+	// Quotes stored before statuses were introduced have none, which counts as "new"
+	const statusCondition =
+		expectedStatus === "new"
+			? "(#status = :expectedStatus OR attribute_not_exists(#status))"
+			: "#status = :expectedStatus";
+
+	const result = await dynamoDbClient.send(
+		new UpdateCommand({
+			TableName: QUOTES_TABLE_NAME,
+			Key: { quoteId },
+			UpdateExpression: `SET ${assignments.join(", ")}`,
+			ConditionExpression: `attribute_exists(quoteId) AND ${statusCondition}`,
+			ExpressionAttributeNames: { "#status": "status" },
+			ExpressionAttributeValues: values,
+			ReturnValues: "ALL_NEW",
+		})
+	);
+	return result.Attributes as QuoteRecord;
+}
+
+export interface QuoteListFilter {
+	assignedRep?: string;
+	status?: QuoteStatus;
+
+	/**
+	 * Submission time range as ISO timestamps, both inclusive
+	 */
+	createdFrom?: string;
+	createdTo?: string;
+
+	/**
+	 * Case-insensitive substring of the company name
+	 */
+	company?: string;
+}
+
+export interface QuoteListPage {
+	quotes: QuoteRecord[];
+
+	/**
+	 * Pass back to get the next page. Unset on the last page.
+	 */
+	cursor?: string;
+}
+
+function matchesFilter(quote: QuoteRecord, filter: QuoteListFilter): boolean {
+	return (
+		(!filter.status || (quote.status ?? "new") === filter.status) &&
+		(!filter.assignedRep || quote.assignedRep === filter.assignedRep) &&
+		(!filter.company ||
+			quote.contactInfo.companyName.toLowerCase().includes(filter.company.toLowerCase()))
+	);
+}
+
+/**
+ * Cursors are the index key of the last quote returned, so a page can end part way through
+ * a DynamoDB page without skipping quotes
+ */
+function encodeCursor(quote: QuoteRecord): string {
+	const key = { quoteId: quote.quoteId, recordType: QUOTE_RECORD_TYPE, createdAt: quote.createdAt };
+	return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+/**
+ * Returns undefined for a cursor this module did not issue
+ */
+export function decodeCursor(cursor: string): Record<string, string> | undefined {
+	try {
+		const key = JSON.parse(Buffer.from(cursor, "base64url").toString("utf-8"));
+		return typeof key?.quoteId === "string" && typeof key.createdAt === "string"
+			? { quoteId: key.quoteId, recordType: QUOTE_RECORD_TYPE, createdAt: key.createdAt }
+			: undefined;
+	} catch {
+		return undefined;
+	}
+}
+
+/**
+ * Lists quotes newest first. The date range narrows the index query; status, rep and company
+ * are matched while reading, which is cheap at the number of quotes this table holds.
+ */
+export async function listQuotes(
+	filter: QuoteListFilter,
+	limit: number,
+	cursor: string | undefined
+): Promise<QuoteListPage> {
+	const keyConditions = ["recordType = :recordType"];
+	const values: Record<string, unknown> = { ":recordType": QUOTE_RECORD_TYPE };
+	if (filter.createdFrom && filter.createdTo) {
+		keyConditions.push("createdAt BETWEEN :from AND :to");
+		values[":from"] = filter.createdFrom;
+		values[":to"] = filter.createdTo;
+	} else if (filter.createdFrom) {
+		keyConditions.push("createdAt >= :from");
+		values[":from"] = filter.createdFrom;
+	} else if (filter.createdTo) {
+		keyConditions.push("createdAt <= :to");
+		values[":to"] = filter.createdTo;
+	}
+
+	const quotes: QuoteRecord[] = [];
+	let startKey: Record<string, unknown> | undefined = cursor ? decodeCursor(cursor) : undefined;
+
+	do {
+		const result: QueryCommandOutput = await dynamoDbClient.send(
+			new QueryCommand({
+				TableName: QUOTES_TABLE_NAME,
+				IndexName: BY_CREATED_AT_INDEX,
+				KeyConditionExpression: keyConditions.join(" AND "),
+				ExpressionAttributeValues: values,
+				ScanIndexForward: false,
+				ExclusiveStartKey: startKey,
+			})
+		);
+
+		for (const item of result.Items ?? []) {
+			const quote = item as QuoteRecord;
+			if (matchesFilter(quote, filter)) {
+				quotes.push(quote);
+				if (quotes.length === limit) {
+					return { quotes, cursor: encodeCursor(quote) };
+				}
+			}
+		}
+		startKey = result.LastEvaluatedKey;
+	} while (startKey);
+
+	return { quotes };
+}
@@ -0,0 +1,75 @@
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { DynamoDBDocumentClient, GetCommand, UpdateCommand } from "@aws-sdk/lib-dynamodb";
+import { createHash } from "node:crypto";
+
+const dynamoDbClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const RATE_LIMIT_TABLE_NAME = process.env.RATE_LIMIT_TABLE_NAME;
+
+export interface RateLimitRule {
+	/**
+	 * Identifies the rule in table keys and metrics, e.g. "ip"
+	 */
+	name: string;
+	limit: number;
+	windowSeconds: number;
+}
+
+export interface RateLimitResult {
+	allowed: boolean;
+	retryAfterSeconds: number;
+}
+
+/**
+ * Subjects such as IP and email addresses are hashed so the table holds no personal data
+ */
+function counterKey(rule: RateLimitRule, subject: string, windowStart: number): string {
+	const subjectHash = createHash("sha256").update(subject).digest("base64url");
+	return `${rule.name}#${subjectHash}#${windowStart}`;
+}
+
+/**
+ * Counts an attempt by subject and checks it against the rule's limit.
+ *
+ * Uses a sliding window counter: the count of the current fixed window plus the count of the
+ * previous window, weighted by how much of it still overlaps the sliding window. Counter items
+ * expire through the table's TTL once they can no longer affect a decision.
+ */
+export async function checkRateLimit(
+	rule: RateLimitRule,
+	subject: string,
+	now: Date
+): Promise<RateLimitResult> {
+	const windowMs = rule.windowSeconds * 1000;
+	const windowStart = Math.floor(now.getTime() / windowMs) * windowMs;
+	const previousWindowStart = windowStart - windowMs;
+
+	const current = await dynamoDbClient.send(
+		new UpdateCommand({
+			TableName: RATE_LIMIT_TABLE_NAME,
+			Key: { rateLimitKey: counterKey(rule, subject, windowStart) },
+			UpdateExpression: "ADD attempts :one SET expiresAt = :expiresAt",
+			ExpressionAttributeValues: {
+				":one": 1,
+				":expiresAt": Math.ceil((windowStart + 2 * windowMs) / 1000),
+			},
+			ReturnValues: "UPDATED_NEW",
+		})
+	);
+	const previous = await dynamoDbClient.send(
+		new GetCommand({
+			TableName: RATE_LIMIT_TABLE_NAME,
+			Key: { rateLimitKey: counterKey(rule, subject, previousWindowStart) },
+		})
+	);
+
+	const currentAttempts = Number(current.Attributes?.attempts ?? 1);
+	const previousAttempts = Number(previous.Item?.attempts ?? 0);
+	const previousWeight = 1 - (now.getTime() - windowStart) / windowMs;
+	const estimatedAttempts = previousAttempts * previousWeight + currentAttempts;
+
+	return {
+		allowed: estimatedAttempts <= rule.limit,
+		retryAfterSeconds: Math.ceil((windowStart + windowMs - now.getTime()) / 1000),
+	};
+}
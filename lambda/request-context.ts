@@ -0,0 +1,43 @@
+import type { APIGatewayProxyEventV2 } from "aws-lambda";
+import { lookup } from "zipcodes";
+import { normalizeZipCode } from "./territories";
+import type { QuoteItem, QuoteMetadata, RequestContext, ZipLocation } from "./types";
+
+/**
+ * Computes the quote totals from the items instead of trusting the values sent by the client
+ */
+export function computeQuoteMetadata(quoteItems: QuoteItem[], receivedAt: Date): QuoteMetadata {
+	return {
+		totalItems: quoteItems.reduce((total, item) => total + item.quantity, 0),
+		totalUniqueProducts: new Set(quoteItems.map((item) => item.itemNumber)).size,
+		submittedAt: receivedAt.toISOString(),
+	};
+}
+
+/**
+ * Looks up the city and state of a US zip code in the dataset bundled with the Lambda
+ */
+export function lookupZipLocation(zipCode: string): ZipLocation | undefined {
+	const entry = lookup(normalizeZipCode(zipCode));
+	if (!entry || entry.country !== "US") {
+		return undefined;
+	}
+	return { city: entry.city, state: entry.state };
+}
+
+/**
+ * Captures where and when a quote request was received, for the rep notification
+ */
+export function buildRequestContext(
+	event: APIGatewayProxyEventV2,
+	zipCode: string,
+	receivedAt: Date
+): RequestContext {
+	return {
+		receivedAt: receivedAt.toISOString(),
+		apiRequestId: event.requestContext?.requestId || "unknown",
+		sourceIp: event.requestContext?.http?.sourceIp || "unknown",
+		userAgent: event.headers?.["user-agent"] || "unknown",
+		location: lookupZipLocation(zipCode),
+	};
+}
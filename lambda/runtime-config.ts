@@ -0,0 +1,58 @@
+import { GetSecretValueCommand, SecretsManagerClient } from "@aws-sdk/client-secrets-manager";
+import { GetParameterCommand, SSMClient } from "@aws-sdk/client-ssm";
+import { type CachedLoader, createCachedLoader } from "./cached-loader";
+
+const secretsManagerClient = new SecretsManagerClient({});
+const ssmClient = new SSMClient({});
+
+/**
+ * How long a Lambda instance reuses a secret or parameter before reading it again. Changes
+ * made without a deploy, e.g. a rep's new address, reach every instance within this time.
+ */
+const RUNTIME_CONFIG_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Loads a Secrets Manager secret stored as plain text
+ */
+export function createSecretLoader(
+	secretId: string,
+	onRefreshError: (error: unknown) => void
+): CachedLoader<string> {
+	return createCachedLoader(
+		async () => {
+			const response = await secretsManagerClient.send(
+				new GetSecretValueCommand({ SecretId: secretId })
+			);
+			if (!response.SecretString) {
+				throw new Error(`Secret ${secretId} has no string value`);
+			}
+			return response.SecretString;
+		},
+		RUNTIME_CONFIG_CACHE_TTL_MS,
+		onRefreshError
+	);
+}
+
+/**
+ * Loads an SSM parameter and parses it. A value that fails to parse counts as a failed refresh,
+ * so a bad edit keeps the previous value in use.
+ */
+export function createParameterLoader<T>(
+	name: string,
+	parse: (value: string) => T,
+	onRefreshError: (error: unknown) => void
+): CachedLoader<T> {
+	return createCachedLoader(
+		async () => {
+			const response = await ssmClient.send(
+				new GetParameterCommand({ Name: name, WithDecryption: true })
+			);
+			if (!response.Parameter?.Value) {
+				throw new Error(`Parameter ${name} has no value`);
+			}
+			return parse(response.Parameter.Value);
+		},
+		RUNTIME_CONFIG_CACHE_TTL_MS,
+		onRefreshError
+	);
+}
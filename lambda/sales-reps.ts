@@ -0,0 +1,201 @@
+import { NEW_CUSTOMER_OPTION } from "./types";
+
+export interface SalesRep {
+	/**
+	 * Stable key used by routing rules and CDK construct IDs. Never rename or reuse an ID.
+	 */
+	id: string;
+
+	/**
+	 * Name shown on the quote form and submitted as contactInfo.salesRep.
+	 */
+	name: string;
+
+	/**
+	 * Addresses that receive quotes routed to this rep.
+	 */
+	emails: string[];
+
+	/**
+	 * Inactive reps are no longer offered on the form and never receive quotes.
+	 */
+	active: boolean;
+
+	/**
+	 * IDs of other reps copied on every quote routed to this rep.
+	 */
+	ccRepIds?: string[];
+}
+
+export interface SalesRepRegistry {
+	reps: SalesRep[];
+
+	/**
+	 * IDs of the reps notified when the customer selects "New customer".
+	 */
+	newCustomerRepIds: string[];
+}
+
+const SALES_REP_ID_REGEX = /^[a-z0-9-]+$/;
+
+const EXAMPLE_REGISTRY =
+	'{"reps":[{"id":"judith","name":"Judith","emails":["judith@example.com"],"active":true},' +
+	'{"id":"ajay","name":"Ajay","emails":["ajay@example.com"],"active":true,"ccRepIds":["judith"]}],' +
+	'"newCustomerRepIds":["judith"]}';
+
+function isNonEmptyString(value: unknown): value is string {
+	return typeof value === "string" && value.trim().length > 0;
+}
+
+function isStringArray(value: unknown): value is string[] {
+	return Array.isArray(value) && value.every(isNonEmptyString);
+}
+
+function parseSalesRep(value: unknown, index: number): SalesRep {
+	if (!value || typeof value !== "object" || Array.isArray(value)) {
+		throw new Error(`reps[${index}] must be an object`);
+	}
+
+	const id = Reflect.get(value, "id");
+	const name = Reflect.get(value, "name");
+	const emails = Reflect.get(value, "emails");
+	const active = Reflect.get(value, "active");
+	const ccRepIds = Reflect.get(value, "ccRepIds");
+
+	if (!isNonEmptyString(id) || !SALES_REP_ID_REGEX.test(id)) {
+		throw new Error(`reps[${index}].id must be lowercase letters, digits or dashes`);
+	}
+	if (!isNonEmptyString(name)) {
+		throw new Error(`reps[${index}].name is required`);
+	}
+	if (!isStringArray(emails) || emails.length === 0) {
+		throw new Error(`reps[${index}].emails must be a non-empty array of email addresses`);
+	}
+	if (typeof active !== "boolean") {
+		throw new Error(`reps[${index}].active must be a boolean`);
+	}
+	if (ccRepIds !== undefined && !isStringArray(ccRepIds)) {
+		throw new Error(`reps[${index}].ccRepIds must be an array of rep IDs`);
+	}
+
+	return {
+		id,
+		name: name.trim(),
+		emails: emails.map((email) => email.trim()),
+		active,
+		ccRepIds,
+	};
+}
+
+/**
+ * Parses and validates a JSON-encoded sales rep registry
+ */
+export function parseSalesRepRegistry(value: string): SalesRepRegistry {
+	let parsed: unknown;
+
+	try {
+		parsed = JSON.parse(value);
+	} catch {
+		throw new Error(
+			`Invalid sales rep registry. Expected valid JSON, for example: ${EXAMPLE_REGISTRY}`
+		);
+	}
+
+	if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+		throw new Error("Invalid sales rep registry. Expected a JSON object.");
+	}
+
+	const reps = Reflect.get(parsed, "reps");
+	const newCustomerRepIds = Reflect.get(parsed, "newCustomerRepIds");
+
+	if (!Array.isArray(reps) || reps.length === 0) {
+		throw new Error("Invalid sales rep registry. reps must be a non-empty array.");
+	}
+	if (!isStringArray(newCustomerRepIds) || newCustomerRepIds.length === 0) {
+		throw new Error("Invalid sales rep registry. newCustomerRepIds must be a non-empty array.");
+	}
+
+	const registry: SalesRepRegistry = {
+		reps: reps.map((rep, index) => {
+			try {
+				return parseSalesRep(rep, index);
+			} catch (error) {
+				throw new Error(`Invalid sales rep registry. ${(error as Error).message}.`);
+			}
+		}),
+		newCustomerRepIds,
+	};
+
+	validateReferences(registry);
+
+	return registry;
+}
+
+function validateReferences(registry: SalesRepRegistry): void {
+	const ids = new Set<string>();
+	const names = new Set<string>();
+
+	for (const rep of registry.reps) {
+		if (ids.has(rep.id)) {
+			throw new Error(`Invalid sales rep registry. Duplicate rep id "${rep.id}".`);
+		}
+		if (names.has(rep.name) || rep.name === NEW_CUSTOMER_OPTION) {
+			throw new Error(`Invalid sales rep registry. Duplicate rep name "${rep.name}".`);
+		}
+		ids.add(rep.id);
+		names.add(rep.name);
+	}
+
+	const referencedIds = [
+		...registry.newCustomerRepIds,
+		...registry.reps.flatMap((rep) => rep.ccRepIds ?? []),
+	];
+	for (const repId of referencedIds) {
+		if (!ids.has(repId)) {
+			throw new Error(`Invalid sales rep registry. Unknown rep id "${repId}".`);
+		}
+	}
+
+	if (getActiveReps(registry, registry.newCustomerRepIds).length === 0) {
+		throw new Error("Invalid sales rep registry. newCustomerRepIds has no active rep.");
+	}
+}
+
+function getActiveReps(registry: SalesRepRegistry, repIds: string[]): SalesRep[] {
+	return registry.reps.filter((rep) => rep.active && repIds.includes(rep.id));
+}
+
+/**
+ * Returns the options customers can pick from: every active rep plus "New customer"
+ */
+export function getSalesRepOptions(registry: SalesRepRegistry): string[] {
+	return [...registry.reps.filter((rep) => rep.active).map((rep) => rep.name), NEW_CUSTOMER_OPTION];
+}
+
+export function isSalesRepOption(registry: SalesRepRegistry, value: unknown): boolean {
+	return typeof value === "string" && getSalesRepOptions(registry).includes(value);
+}
+
+/**
+ * Resolves a submitted sales rep option to the reps that should receive the quote,
+ * including any reps they copy
+ */
+export function getRoutedReps(registry: SalesRepRegistry, salesRep: string): SalesRep[] {
+	if (salesRep === NEW_CUSTOMER_OPTION) {
+		return getActiveReps(registry, registry.newCustomerRepIds);
+	}
+
+	const rep = registry.reps.find((candidate) => candidate.active && candidate.name === salesRep);
+	if (!rep) {
+		return [];
+	}
+
+	return [rep, ...getActiveReps(registry, rep.ccRepIds ?? []).filter(({ id }) => id !== rep.id)];
+}
+
+/**
+ * Returns the unique email addresses of the reps that should receive the quote
+ */
+export function getDestinationEmails(registry: SalesRepRegistry, salesRep: string): string[] {
+	return [...new Set(getRoutedReps(registry, salesRep).flatMap((rep) => rep.emails))];
+}
@@ -0,0 +1,153 @@
+import type { SQSEvent } from "aws-lambda";
+import { suppressEmail } from "./email-suppressions";
+import { createLogger, type Logger } from "./logger";
+import { QUOTE_METRICS, recordMetric } from "./metrics";
+import {
+	type EmailDeliveryEvent,
+	QUOTE_EMAILS,
+	type QuoteEmail,
+	recordEmailEvent,
+} from "./quote-store";
+
+const logger = createLogger();
+
+/**
+ * Event published by the SES configuration set. Only the fields used here are listed.
+ * See https://docs.aws.amazon.com/ses/latest/dg/event-publishing-retrieving-sns-contents.html
+ */
+interface SesEvent {
+	eventType: string;
+	mail: {
+		messageId: string;
+		destination: string[];
+		tags?: Record<string, string[]>;
+	};
+	delivery?: {
+		timestamp: string;
+		recipients: string[];
+	};
+	bounce?: {
+		timestamp: string;
+		bounceType: "Undetermined" | "Permanent" | "Transient";
+		bounceSubType: string;
+		bouncedRecipients: { emailAddress: string }[];
+	};
+	complaint?: {
+		timestamp: string;
+		complaintFeedbackType?: string;
+		complainedRecipients: { emailAddress: string }[];
+	};
+}
+
+/**
+ * Reads the quote ID and email type the email processor tagged the message with.
+ * Mail sent without them, e.g. a test email from the SES console, is ignored.
+ */
+function getEmailTags(event: SesEvent): { quoteId: string; email: QuoteEmail } | undefined {
+	const quoteId = event.mail.tags?.quoteId?.[0];
+	const email = event.mail.tags?.email?.[0];
+	if (!quoteId || !QUOTE_EMAILS.some((quoteEmail) => quoteEmail === email)) {
+		return undefined;
+	}
+	return { quoteId, email: email as QuoteEmail };
+}
+
+function toDeliveryEvent(event: SesEvent, email: QuoteEmail): EmailDeliveryEvent | undefined {
+	if (event.eventType === "Delivery" && event.delivery) {
+		return {
+			email,
+			type: "delivery",
+			recipients: event.delivery.recipients,
+			occurredAt: event.delivery.timestamp,
+		};
+	}
+	if (event.eventType === "Bounce" && event.bounce) {
+		return {
+			email,
+			type: "bounce",
+			recipients: event.bounce.bouncedRecipients.map(({ emailAddress }) => emailAddress),
+			occurredAt: event.bounce.timestamp,
+			detail: `${event.bounce.bounceType}/${event.bounce.bounceSubType}`,
+		};
+	}
+	if (event.eventType === "Complaint" && event.complaint) {
+		return {
+			email,
+			type: "complaint",
+			recipients: event.complaint.complainedRecipients.map(({ emailAddress }) => emailAddress),
+			occurredAt: event.complaint.timestamp,
+			detail: event.complaint.complaintFeedbackType,
+		};
+	}
+	return undefined;
+}
+
+/**
+ * Hard bounces and complaints on customer acknowledgements suppress the customer's address.
+ * Rep addresses are never suppressed: a rep notification must still be attempted, and the
+ * RepEmailBounced alarm tells someone to fix the registry.
+ */
+async function handleUndeliverable(
+	log: Logger,
+	quoteId: string,
+	deliveryEvent: EmailDeliveryEvent,
+	event: SesEvent
+): Promise<void> {
+	const isHardBounce = event.bounce?.bounceType === "Permanent";
+
+	if (deliveryEvent.email === "repNotification") {
+		if (isHardBounce) {
+			log.error("Rep notification hard-bounced", { recipients: deliveryEvent.recipients });
+			recordMetric(QUOTE_METRICS.repEmailBounced);
+		}
+	} else if (isHardBounce || deliveryEvent.type === "complaint") {
+		for (const recipient of deliveryEvent.recipients) {
+			await suppressEmail({
+				email: recipient,
+				reason: deliveryEvent.type === "complaint" ? "complaint" : "bounce",
+				suppressedAt: deliveryEvent.occurredAt,
+				quoteId,
+				detail: deliveryEvent.detail,
+			});
+		}
+		log.info("Suppressed customer addresses", { recipients: deliveryEvent.recipients });
+	}
+
+	if (deliveryEvent.type === "complaint") {
+		recordMetric(QUOTE_METRICS.emailComplaint, { Email: deliveryEvent.email });
+	}
+}
+
+/**
+ * Lambda handler for SES delivery, bounce and complaint events, delivered from the configuration
+ * set through SNS and SQS. Records each event on the quote the email was sent for.
+ */
+export const handler = async (event: SQSEvent): Promise<void> => {
+	for (const record of event.Records) {
+		// The SQS subscription uses raw message delivery, so the body is the SES event itself
+		const sesEvent = JSON.parse(record.body) as SesEvent;
+		const tags = getEmailTags(sesEvent);
+		const deliveryEvent = tags && toDeliveryEvent(sesEvent, tags.email);
+
+		if (!tags || !deliveryEvent) {
+			logger.info("Ignoring SES event", {
+				eventType: sesEvent.eventType,
+				sesMessageId: sesEvent.mail.messageId,
+			});
+			continue;
+		}
+
+		const log = logger.child({
+			correlationId: sesEvent.mail.tags?.correlationId?.[0],
+			quoteId: tags.quoteId,
+			emailType: tags.email,
+			sesMessageId: sesEvent.mail.messageId,
+		});
+
+		if (deliveryEvent.type !== "delivery") {
+			await handleUndeliverable(log, tags.quoteId, deliveryEvent, sesEvent);
+		}
+		await recordEmailEvent(tags.quoteId, deliveryEvent);
+		log.info("Recorded SES event", { eventType: deliveryEvent.type });
+	}
+};
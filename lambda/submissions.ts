@@ -0,0 +1,236 @@
+import { ConditionalCheckFailedException, DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import {
+	DeleteCommand,
+	DynamoDBDocumentClient,
+	GetCommand,
+	PutCommand,
+	UpdateCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { createHash } from "node:crypto";
+import type { QuoteRequestPayload } from "./types";
+
+const dynamoDbClient = DynamoDBDocumentClient.from(new DynamoDBClient({}));
+
+const SUBMISSIONS_TABLE_NAME = process.env.SUBMISSIONS_TABLE_NAME;
+
+/**
+ * How long a repeated Idempotency-Key returns the original response
+ */
+export const IDEMPOTENCY_WINDOW_SECONDS = 24 * 60 * 60;
+
+/**
+ * Submissions from the same email with the same items within this window are flagged as duplicates
+ */
+export const DUPLICATE_WINDOW_MINUTES = 30;
+
+/**
+ * A claim without a stored response is abandoned after this long (the API handler times out
+ * after 10 seconds), so a crashed request does not block its key for the whole window
+ */
+const STALE_CLAIM_SECONDS = 60;
+
+export interface StoredResponse {
+	statusCode: number;
+	body: string;
+}
+
+export type IdempotencyClaim =
+	| { status: "claimed" }
+	| { status: "completed"; response: StoredResponse }
+	| { status: "in_progress" }
+	| { status: "payload_mismatch" };
+
+function hash(value: string): string {
+	return createHash("sha256").update(value).digest("base64url");
+}
+
+function toEpochSeconds(date: Date): number {
+	return Math.floor(date.getTime() / 1000);
+}
+
+/**
+ * Idempotency keys are opaque client-generated values such as UUIDs
+ */
+export function isValidIdempotencyKey(key: string): boolean {
+	return /^[\x21-\x7e]{8,255}$/.test(key);
+}
+
+/**
+ * Claims an Idempotency-Key for a new submission. When the key was already used within the
+ * window, returns the stored response, or tells the caller the first request is still running.
+ */
+export async function claimIdempotencyKey(
+	key: string,
+	payload: unknown,
+	now: Date
+): Promise<IdempotencyClaim> {
+	const payloadHash = hash(JSON.stringify(payload));
+
+	try {
+		await dynamoDbClient.send(
+			new PutCommand({
+				TableName: SUBMISSIONS_TABLE_NAME,
+				Item: {
+					submissionKey: `IDEMPOTENCY#${key}`,
+					payloadHash,
+					claimedAt: toEpochSeconds(now),
+					expiresAt: toEpochSeconds(now) + IDEMPOTENCY_WINDOW_SECONDS,
+				},
+				// TTL deletion can lag, so expired records are overwritten explicitly
+				ConditionExpression:
+					"attribute_not_exists(submissionKey) OR expiresAt < :now OR " +
+					"(attribute_not_exists(#response) AND claimedAt < :staleBefore)",
+				ExpressionAttributeNames: { "#response": "response" },
+				ExpressionAttributeValues: {
+					":now": toEpochSeconds(now),
+					":staleBefore": toEpochSeconds(now) - STALE_CLAIM_SECONDS,
+				},
+			})
+		);
+		return { status: "claimed" };
+	} catch (error) {
+		if (!(error instanceof ConditionalCheckFailedException)) {
+			throw error;
+		}
+	}
+
+	const existing = await dynamoDbClient.send(
+		new GetCommand({
+			TableName: SUBMISSIONS_TABLE_NAME,
+			Key: { submissionKey: `IDEMPOTENCY#${key}` },
+			ConsistentRead: true,
+		})
+	);
+	const record = existing.Item;
+
+	// Released by the first request in the meantime; the client can simply retry
+	if (!record) {
+		return { status: "in_progress" };
+	}
+	if (record.payloadHash !== payloadHash) {
+		return { status: "payload_mismatch" };
+	}
+	if (record.response) {
+		return { status: "completed", response: record.response as StoredResponse };
+	}
+	return { status: "in_progress" };
+}
+
+/**
+ * Stores the response returned for a claimed key, so repeats of the request get the same one
+ */
+export async function completeIdempotencyKey(key: string, response: StoredResponse): Promise<void> {
+	await dynamoDbClient.send(
+		new UpdateCommand({
+			TableName: SUBMISSIONS_TABLE_NAME,
+			Key: { submissionKey: `IDEMPOTENCY#${key}` },
+			UpdateExpression: "SET #response = :response",
+			ExpressionAttributeNames: { "#response": "response" },
+			ExpressionAttributeValues: { ":response": response },
+		})
+	);
+}
+
+/**
+ * Releases a claimed key when the request was not accepted, so the client can retry with it
+ */
+export async function releaseIdempotencyKey(key: string): Promise<void> {
+	await dynamoDbClient.send(
+		new DeleteCommand({
+			TableName: SUBMISSIONS_TABLE_NAME,
+			Key: { submissionKey: `IDEMPOTENCY#${key}` },
+		})
+	);
+}
+
+/**
+ * Identifies a quote request by customer email and the set of requested items, ignoring
+ * quantities and item order
+ */
+export function quoteFingerprint(payload: QuoteRequestPayload): string {
+	const items = payload.quoteItems
+		.map((item) => `${item.itemNumber}|${item.variantLabel ?? ""}|${item.variantValue ?? ""}`)
+		.sort();
+	return hash(
+		JSON.stringify([payload.contactInfo.email.trim().toLowerCase(), [...new Set(items)]])
+	);
+}
+
+/**
+ * A quote recorded under its fingerprint
+ */
+export interface RecordedQuoteFingerprint {
+	/**
+	 * ID of the previous quote with the same fingerprint, when it was submitted within the
+	 * duplicate window
+	 */
+	duplicateOfQuoteId?: string;
+
+	/**
+	 * The entry the quote replaced, which restoreQuoteFingerprint puts back
+	 */
+	replaced?: Record<string, unknown>;
+}
+
+/**
+ * Records a submitted quote under its fingerprint
+ */
+export async function recordQuoteFingerprint(
+	fingerprint: string,
+	quoteId: string,
+	now: Date
+): Promise<RecordedQuoteFingerprint> {
+	const result = await dynamoDbClient.send(
+		new UpdateCommand({
+			TableName: SUBMISSIONS_TABLE_NAME,
+			Key: { submissionKey: `FINGERPRINT#${fingerprint}` },
+			UpdateExpression: "SET quoteId = :quoteId, expiresAt = :expiresAt",
+			ExpressionAttributeValues: {
+				":quoteId": quoteId,
+				":expiresAt": toEpochSeconds(now) + DUPLICATE_WINDOW_MINUTES * 60,
+			},
+			ReturnValues: "ALL_OLD",
+		})
+	);
+
+	const previous = result.Attributes;
+	if (!previous || Number(previous.expiresAt) < toEpochSeconds(now)) {
+		return { replaced: previous };
+	}
+	return { duplicateOfQuoteId: String(previous.quoteId), replaced: previous };
+}
+
+/**
+ * Undoes recordQuoteFingerprint for a quote that was not accepted, so a retry is not flagged as
+ * its duplicate. Leaves the entry alone once a later submission has replaced it.
+ */
+export async function restoreQuoteFingerprint(
+	fingerprint: string,
+	quoteId: string,
+	replaced: Record<string, unknown> | undefined
+): Promise<void> {
+	const condition = {
+		ConditionExpression: "quoteId = :quoteId",
+		ExpressionAttributeValues: { ":quoteId": quoteId },
+	};
+
+	try {
+		if (replaced) {
+			await dynamoDbClient.send(
+				new PutCommand({ TableName: SUBMISSIONS_TABLE_NAME, Item: replaced, ...condition })
+			);
+		} else {
+			await dynamoDbClient.send(
+				new DeleteCommand({
+					TableName: SUBMISSIONS_TABLE_NAME,
+					Key: { submissionKey: `FINGERPRINT#${fingerprint}` },
+					...condition,
+				})
+			);
+		}
+	} catch (error) {
+		if (!(error instanceof ConditionalCheckFailedException)) {
+			throw error;
+		}
+	}
+}
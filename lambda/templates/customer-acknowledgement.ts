@@ -0,0 +1,173 @@
+import { DEFAULT_LOCALE, LOCALES, type Locale, type QueuedQuoteRequest } from "../types";
+import { emailLayout, quoteItemsTableHtml, quoteItemsText } from "./partials";
+import { html, type RenderedEmail, singleLine } from "./render";
+
+interface CustomerEmailStrings {
+	subject: (quoteId: string) => string;
+	heading: string;
+	greeting: (name: string) => string;
+	intro: (companyName: string) => string;
+	contactBySalesRep: (salesRep: string) => string;
+	contactBySalesTeam: string;
+	quoteReference: string;
+	itemNumber: string;
+	product: string;
+	selection: string;
+	cases: string;
+	total: string;
+	standardSelection: string;
+	replyHint: string;
+	footer: string;
+}
+
+const CUSTOMER_EMAIL_STRINGS: Record<Locale, CustomerEmailStrings> = {
+	en: {
+		subject: (quoteId) => `We received your quote request ${quoteId}`,
+		heading: "Thank you for your quote request",
+		greeting: (name) => `Hi ${name},`,
+		intro: (companyName) =>
+			`We received your quote request for ${companyName}. Here is a summary of what you asked for:`,
+		contactBySalesRep: (salesRep) =>
+			`${salesRep}, your A & S Distributors sales representative, will contact you shortly to go over pricing and availability.`,
+		contactBySalesTeam:
+			"A member of our sales team will contact you shortly to go over pricing and availability.",
+		quoteReference: "Quote reference",
+		itemNumber: "Item #",
+		product: "Product",
+		selection: "Selection",
+		cases: "Cases",
+		total: "Total",
+		standardSelection: "Standard",
+		replyHint: "You can reply to this email to reach our sales team.",
+		footer: "This is an automated confirmation from A & S Distributors.",
+	},
+	es: {
+		subject: (quoteId) => `Hemos recibido su solicitud de cotización ${quoteId}`,
+		heading: "Gracias por su solicitud de cotización",
+		greeting: (name) => `Hola ${name}:`,
+		intro: (companyName) =>
+			`Hemos recibido su solicitud de cotización para ${companyName}. Este es un resumen de lo que solicitó:`,
+		contactBySalesRep: (salesRep) =>
+			`${salesRep}, su representante de ventas de A & S Distributors, se comunicará con usted pronto para revisar precios y disponibilidad.`,
+		contactBySalesTeam:
+			"Un miembro de nuestro equipo de ventas se comunicará con usted pronto para revisar precios y disponibilidad.",
+		quoteReference: "Referencia de cotización",
+		itemNumber: "Artículo #",
+		product: "Producto",
+		selection: "Selección",
+		cases: "Cajas",
+		total: "Total",
+		standardSelection: "Estándar",
+		replyHint: "Puede responder a este correo para comunicarse con nuestro equipo de ventas.",
+		footer: "Esta es una confirmación automática de A & S Distributors.",
+	},
+	sm: {
+		subject: (quoteId) => `Ua matou maua lau talosaga mo se tau ${quoteId}`,
+		heading: "Faafetai mo lau talosaga mo se tau",
+		greeting: (name) => `Talofa ${name},`,
+		intro: (companyName) =>
+			`Ua matou maua lau talosaga mo se tau mo ${companyName}. O se aotelega lenei o mea na e talosagaina:`,
+		contactBySalesRep: (salesRep) =>
+			`O le a faafesootai atu ${salesRep}, lou sui faatau a A & S Distributors, i se taimi vave e talanoa ai i tau ma mea o avanoa.`,
+		contactBySalesTeam:
+			"O le a faafesootai atu se sui o la matou 'au faatau i se taimi vave e talanoa ai i tau ma mea o avanoa.",
+		quoteReference: "Numera o le talosaga",
+		itemNumber: "Numera #",
+		product: "Oloa",
+		selection: "Filifiliga",
+		cases: "Pusa",
+		total: "Aofai",
+		standardSelection: "Masani",
+		replyHint: "E mafai ona e tali mai i lenei imeli e faafesootai ai la matou 'au faatau.",
+		footer: "O se faamaoniga otometi lenei mai A & S Distributors.",
+	},
+	ko: {
+		subject: (quoteId) => `견적 요청 ${quoteId}이(가) 접수되었습니다`,
+		heading: "견적을 요청해 주셔서 감사합니다",
+		greeting: (name) => `${name}님, 안녕하세요.`,
+		intro: (companyName) =>
+			`${companyName}의 견적 요청이 접수되었습니다. 요청하신 내용은 다음과 같습니다:`,
+		contactBySalesRep: (salesRep) =>
+			`A & S Distributors 영업 담당자 ${salesRep}이(가) 곧 연락드려 가격과 재고를 안내해 드리겠습니다.`,
+		contactBySalesTeam: "영업팀 담당자가 곧 연락드려 가격과 재고를 안내해 드리겠습니다.",
+		quoteReference: "견적 참조 번호",
+		itemNumber: "품번",
+		product: "제품",
+		selection: "선택 사항",
+		cases: "박스",
+		total: "합계",
+		standardSelection: "기본",
+		replyHint: "이 이메일에 회신하시면 영업팀에 연락하실 수 있습니다.",
+		footer: "A & S Distributors에서 자동으로 발송된 확인 메일입니다.",
+	},
+	zh: {
+		subject: (quoteId) => `我们已收到您的报价请求 ${quoteId}`,
+		heading: "感谢您的报价请求",
+		greeting: (name) => `${name}，您好：`,
+		intro: (companyName) => `我们已收到 ${companyName} 的报价请求。以下是您所请求内容的摘要：`,
+		contactBySalesRep: (salesRep) =>
+			`A & S Distributors 销售代表 ${salesRep} 将很快与您联系，介绍价格和库存情况。`,
+		contactBySalesTeam: "我们的销售团队成员将很快与您联系，介绍价格和库存情况。",
+		quoteReference: "报价编号",
+		itemNumber: "货号",
+		product: "产品",
+		selection: "规格",
+		cases: "箱数",
+		total: "合计",
+		standardSelection: "标准",
+		replyHint: "如有疑问，您可以直接回复此邮件联系我们的销售团队。",
+		footer: "这是 A & S Distributors 自动发送的确认邮件。",
+	},
+};
+
+function resolveLocale(locale: string | undefined): Locale {
+	return LOCALES.find((supportedLocale) => supportedLocale === locale) ?? DEFAULT_LOCALE;
+}
+
+function formatContactSentence(
+	assignedRepName: string | undefined,
+	strings: CustomerEmailStrings
+): string {
+	return assignedRepName ? strings.contactBySalesRep(assignedRepName) : strings.contactBySalesTeam;
+}
+
+/**
+ * Renders the acknowledgement email sent to the customer, in the locale they submitted from.
+ * When no single rep owns the quote, the email says the sales team will be in touch.
+ */
+export function renderCustomerAcknowledgement(
+	quoteRequest: QueuedQuoteRequest,
+	assignedRepName: string | undefined
+): RenderedEmail {
+	const { quoteId, contactInfo, quoteItems, metadata } = quoteRequest;
+	const locale = resolveLocale(quoteRequest.locale);
+	const strings = CUSTOMER_EMAIL_STRINGS[locale];
+	const contactSentence = formatContactSentence(assignedRepName, strings);
+	const reference = `${strings.quoteReference}: ${quoteId}`;
+
+	const subject = singleLine(strings.subject(quoteId));
+
+	const htmlBody = emailLayout({
+		lang: locale,
+		heading: strings.heading,
+		subheading: reference,
+		content: html`
+        <p>${strings.greeting(contactInfo.name)}</p>
+        <p>${strings.intro(contactInfo.companyName)}</p>
+        ${quoteItemsTableHtml(quoteItems, strings, strings.standardSelection, metadata.totalItems)}
+        <p>${contactSentence}</p>
+        <p>${strings.replyHint}</p>`,
+		footerLines: [strings.footer],
+	}).toString();
+
+	const textBody = [
+		`${strings.heading}\n${reference}`,
+		strings.greeting(contactInfo.name),
+		strings.intro(contactInfo.companyName),
+		`${quoteItemsText(quoteItems, strings.standardSelection, (quantity) => `${quantity} ${strings.cases}`)}\n${strings.total}: ${metadata.totalItems} ${strings.cases}`,
+		`${contactSentence}\n${strings.replyHint}`,
+		`---\n${strings.footer}`,
+	].join("\n\n");
+
+	return { subject, htmlBody, textBody };
+}
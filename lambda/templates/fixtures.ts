@@ -0,0 +1,232 @@
+import type { MimeAttachment } from "../mime";
+import { DEFAULT_EXPORT_COLUMNS, renderQuoteExportAttachment } from "../quote-export";
+import {
+	LOCALES,
+	NEW_CUSTOMER_OPTION,
+	QUOTE_REQUEST_SCHEMA_VERSION,
+	type QueuedQuoteRequest,
+} from "../types";
+import { renderCustomerAcknowledgement } from "./customer-acknowledgement";
+import { renderQuoteRequestPdfAttachment } from "./quote-request-pdf";
+import type { RenderedEmail } from "./render";
+import { renderRepNotification } from "./rep-notification";
+
+/**
+ * Sample input for an email template, used to preview template changes locally
+ */
+export interface TemplateFixture {
+	name: string;
+	description: string;
+	to: string[];
+	replyTo: string[];
+	render: () => RenderedEmail;
+
+	/**
+	 * Files attached to the email, e.g. the quote request PDF on rep notifications
+	 */
+	renderAttachments?: () => Promise<MimeAttachment[]>;
+}
+
+export const SAMPLE_REP_EMAIL = "sales-rep@example.com";
+
+/**
+ * Builds a representative queued quote request. Override fields to cover edge cases.
+ */
+export function createSampleQuoteRequest(
+	overrides: Partial<QueuedQuoteRequest> = {}
+): QueuedQuoteRequest {
+	return {
+		schemaVersion: QUOTE_REQUEST_SCHEMA_VERSION,
+		quoteId: "ASD-2026-000123",
+		contactInfo: {
+			name: "Maria Lopez",
+			companyName: "Lopez Family Market",
+			email: "maria@example.com",
+			phone: "(209) 555-0142",
+			zipCode: "95202",
+			salesRep: "Judith",
+		},
+		quoteItems: [
+			{
+				productName: "Mango Nectar 12oz",
+				itemNumber: "10234",
+				quantity: 5,
+				variantLabel: "flavor",
+				variantValue: "Mango",
+			},
+			{ productName: "Paper Towels 6-pack", itemNumber: "20411", quantity: 2 },
+		],
+		metadata: {
+			totalItems: 7,
+			totalUniqueProducts: 2,
+			submittedAt: "2026-03-14T17:25:00.000Z",
+		},
+		agreedToContact: true,
+		locale: "en",
+		requestContext: {
+			receivedAt: "2026-03-14T17:25:01.214Z",
+			apiRequestId: "Vx2kQhBfIAMEb3w=",
+			sourceIp: "203.0.113.24",
+			userAgent: "Mozilla/5.0 (iPhone; CPU iPhone OS 17_4 like Mac OS X) AppleWebKit/605.1.15",
+			location: { city: "Stockton", state: "CA" },
+		},
+		...overrides,
+	};
+}
+
+const UNSAFE_QUOTE_REQUEST = createSampleQuoteRequest({
+	contactInfo: {
+		name: 'Tom "TJ" <script>alert(1)</script>',
+		companyName: "Smith & Sons <b>Deli</b>",
+		email: "tj+quotes@example.com",
+		phone: '209-555-0100" onclick="alert(1)',
+		zipCode: "95340",
+		salesRep: "Sanjay",
+	},
+	quoteItems: [
+		{
+			productName: "Chips <img src=x onerror=alert(1)>",
+			itemNumber: "30001",
+			quantity: 3,
+			variantLabel: "size",
+			variantValue: `1.5oz "snack" & 'party'`,
+		},
+	],
+	metadata: { totalItems: 3, totalUniqueProducts: 1, submittedAt: "2026-03-14T17:25:00.000Z" },
+	requestContext: {
+		receivedAt: "2026-03-14T17:25:01.214Z",
+		apiRequestId: "Vx2kQhBfIAMEb3w=",
+		sourceIp: "203.0.113.24",
+		userAgent: '<script>alert("ua")</script>',
+	},
+});
+
+/**
+ * A rep notification fixture with the quote request PDF and the default CSV items export
+ * attached, as the email processor sends it
+ */
+function repFixture(
+	name: string,
+	description: string,
+	quoteRequest: QueuedQuoteRequest,
+	territoryNote: string | undefined
+): TemplateFixture {
+	return {
+		name,
+		description,
+		to: [SAMPLE_REP_EMAIL],
+		replyTo: [quoteRequest.contactInfo.email],
+		render: () => renderRepNotification(quoteRequest, territoryNote),
+		renderAttachments: async () => [
+			await renderQuoteRequestPdfAttachment(quoteRequest, territoryNote),
+			renderQuoteExportAttachment(quoteRequest, DEFAULT_EXPORT_COLUMNS, "csv"),
+		],
+	};
+}
+
+const repFixtures: TemplateFixture[] = [
+	repFixture(
+		"rep-notification",
+		"Existing customer who picked their sales rep",
+		createSampleQuoteRequest(),
+		undefined
+	),
+	repFixture(
+		"rep-notification-new-customer",
+		"New customer routed by zip code territory",
+		createSampleQuoteRequest({
+			contactInfo: { ...createSampleQuoteRequest().contactInfo, salesRep: NEW_CUSTOMER_OPTION },
+		}),
+		'Zip 95202 matched territory "stockton-lodi" (San Joaquin County (952xx)); assigned to Judith.'
+	),
+	repFixture(
+		"rep-notification-duplicate",
+		"Same customer and items submitted again within the duplicate window",
+		createSampleQuoteRequest({
+			quoteId: "ASD-2026-000124",
+			duplicateOfQuoteId: "ASD-2026-000123",
+		}),
+		undefined
+	),
+	repFixture(
+		"rep-notification-large-order",
+		"Order long enough for the PDF to run over several pages",
+		createSampleQuoteRequest({
+			quoteItems: Array.from({ length: 60 }, (_, index) => ({
+				productName: `Assorted Snack Variety Pack With A Deliberately Long Product Name ${index + 1}`,
+				itemNumber: String(30000 + index),
+				quantity: (index % 12) + 1,
+			})),
+			metadata: {
+				totalItems: Array.from({ length: 60 }, (_, index) => (index % 12) + 1).reduce(
+					(sum, quantity) => sum + quantity,
+					0
+				),
+				totalUniqueProducts: 60,
+				submittedAt: "2026-03-14T17:25:00.000Z",
+			},
+		}),
+		undefined
+	),
+	repFixture(
+		"rep-notification-unsafe-input",
+		"Customer input containing markup and quotes, which must be escaped",
+		UNSAFE_QUOTE_REQUEST,
+		undefined
+	),
+];
+
+const customerFixtures: TemplateFixture[] = LOCALES.map((locale) => ({
+	name: `customer-acknowledgement-${locale}`,
+	description: `Customer acknowledgement in the "${locale}" locale`,
+	to: ["maria@example.com"],
+	replyTo: [SAMPLE_REP_EMAIL],
+	render: () => renderCustomerAcknowledgement(createSampleQuoteRequest({ locale }), "Judith"),
+}));
+
+export const TEMPLATE_FIXTURES: TemplateFixture[] = [
+	...repFixtures,
+	...customerFixtures,
+	{
+		name: "customer-acknowledgement-sales-team",
+		description: "Customer acknowledgement when no single rep owns the quote",
+		to: ["maria@example.com"],
+		replyTo: [SAMPLE_REP_EMAIL],
+		render: () => renderCustomerAcknowledgement(createSampleQuoteRequest(), undefined),
+	},
+	{
+		name: "customer-acknowledgement-unsafe-input",
+		description: "Customer acknowledgement with markup in customer input",
+		to: ["tj+quotes@example.com"],
+		replyTo: [SAMPLE_REP_EMAIL],
+		render: () => renderCustomerAcknowledgement(UNSAFE_QUOTE_REQUEST, "Sanjay"),
+	},
+];
+
+/**
+ * Rep notification and customer acknowledgement fixtures for a given quote request
+ */
+export function createQuoteRequestFixtures(
+	quoteRequest: QueuedQuoteRequest,
+	baseName: string,
+	source: string
+): TemplateFixture[] {
+	const { salesRep } = quoteRequest.contactInfo;
+	const assignedRepName = salesRep === NEW_CUSTOMER_OPTION ? undefined : salesRep;
+
+	return [
+		repFixture(
+			`${baseName}-rep-notification`,
+			`Rep notification for ${source}`,
+			quoteRequest,
+			undefined
+		),
+		{
+			name: `${baseName}-customer-acknowledgement`,
+			description: `Customer acknowledgement for ${source}`,
+			to: [quoteRequest.contactInfo.email],
+			replyTo: [SAMPLE_REP_EMAIL],
+			render: () => renderCustomerAcknowledgement(quoteRequest, assignedRepName),
+		},
+	];
+}
@@ -0,0 +1,149 @@
+import type { QuoteItem } from "../types";
+import { html, type SafeHtml, trustedHtml } from "./render";
+
+const EMAIL_STYLES = trustedHtml(`
+        body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+        .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+        .header { background-color: #2563eb; color: white; padding: 20px; text-align: center; }
+        .section { margin: 20px 0; padding: 15px; background-color: #f9fafb; border-radius: 8px; }
+        .section-title { font-weight: bold; margin-bottom: 10px; color: #1f2937; }
+        .info-row { margin: 5px 0; }
+        .label { font-weight: 600; }
+        .footer { margin-top: 20px; padding-top: 20px; border-top: 1px solid #ddd; font-size: 12px; color: #666; }
+`);
+
+const CELL_STYLE = "padding: 8px; border: 1px solid #ddd;";
+
+export interface ItemTableLabels {
+	itemNumber: string;
+	product: string;
+	selection: string;
+	cases: string;
+	total: string;
+}
+
+/**
+ * Formats a quote item's variant, e.g. "Flavor: Mango", or the standard label when it has none
+ */
+export function formatSelection(item: QuoteItem, standardLabel: string): string {
+	if (!item.variantLabel || !item.variantValue) {
+		return standardLabel;
+	}
+
+	const label = item.variantLabel.charAt(0).toUpperCase() + item.variantLabel.slice(1);
+	return `${label}: ${item.variantValue}`;
+}
+
+/**
+ * Wraps email content in the shared document, header and footer
+ */
+export function emailLayout(options: {
+	lang: string;
+	heading: string;
+	subheading: string;
+	content: SafeHtml;
+	footerLines: string[];
+}): SafeHtml {
+	return html`<!DOCTYPE html>
+    <html lang="${options.lang}">
+    <head>
+      <meta charset="utf-8">
+      <style>${EMAIL_STYLES}</style>
+    </head>
+    <body>
+      <div class="container">
+        <div class="header">
+          <h1>${options.heading}</h1>
+          <p>${options.subheading}</p>
+        </div>
+
+        ${options.content}
+
+        <div class="footer">
+          ${options.footerLines.map((line) => html`<p>${line}</p>`)}
+        </div>
+      </div>
+    </body>
+    </html>
+  `;
+}
+
+export function section(title: string, content: SafeHtml): SafeHtml {
+	return html`
+        <div class="section">
+          <div class="section-title">${title}</div>
+          ${content}
+        </div>
+  `;
+}
+
+export function infoRow(label: string, value: unknown): SafeHtml {
+	return html`
+          <div class="info-row"><span class="label">${label}:</span> ${value}</div>`;
+}
+
+/**
+ * Formats the quote items into a readable HTML table
+ */
+export function quoteItemsTableHtml(
+	quoteItems: QuoteItem[],
+	labels: ItemTableLabels,
+	standardSelectionLabel: string,
+	totalCases: number
+): SafeHtml {
+	const rows = quoteItems.map(
+		(item) => html`
+      <tr>
+        <td style="${CELL_STYLE}">${item.itemNumber}</td>
+        <td style="${CELL_STYLE}">${item.productName}</td>
+        <td style="${CELL_STYLE}">${formatSelection(item, standardSelectionLabel)}</td>
+        <td style="${CELL_STYLE} text-align: center;">${item.quantity}</td>
+      </tr>`
+	);
+
+	return html`
+    <table style="border-collapse: collapse; width: 100%; margin: 16px 0;">
+      <thead>
+        <tr style="background-color: #f5f5f5;">
+          <th style="${CELL_STYLE} text-align: left;">${labels.itemNumber}</th>
+          <th style="${CELL_STYLE} text-align: left;">${labels.product}</th>
+          <th style="${CELL_STYLE} text-align: left;">${labels.selection}</th>
+          <th style="${CELL_STYLE} text-align: center;">${labels.cases}</th>
+        </tr>
+      </thead>
+      <tbody>${rows}
+      </tbody>
+      <tfoot>
+        <tr style="background-color: #f5f5f5;">
+          <th style="${CELL_STYLE} text-align: left;" colspan="3"><strong>${labels.total}</strong></th>
+          <th style="${CELL_STYLE} text-align: center;">${totalCases}</th>
+        </tr>
+      </tfoot>
+    </table>
+  `;
+}
+
+/**
+ * Formats the quote items into plain text, one line per item
+ */
+export function quoteItemsText(
+	quoteItems: QuoteItem[],
+	standardSelectionLabel: string,
+	formatQuantity: (quantity: number) => string
+): string {
+	return quoteItems
+		.map((item) => {
+			const selection = formatSelection(item, standardSelectionLabel);
+			return `- [${item.itemNumber}] ${item.productName}${
+				selection === standardSelectionLabel ? "" : ` (${selection})`
+			}: ${formatQuantity(item.quantity)}`;
+		})
+		.join("\n");
+}
+
+/**
+ * Formats a plain text section with an underlined title
+ */
+export function textSection(title: string, lines: string[]): string {
+	return `${title}\n-------------------\n${lines.join("\n")}`;
+}
@@ -0,0 +1,370 @@
+import { PDFDocument, type PDFFont, type PDFPage, rgb, StandardFonts } from "pdf-lib";
+import type { MimeAttachment } from "../mime";
+import type { QueuedQuoteRequest } from "../types";
+import { formatSelection } from "./partials";
+
+const COMPANY_NAME = "A & S Distributors";
+const STANDARD_SELECTION = "Standard";
+
+// US Letter, in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const HEADER_HEIGHT = 80;
+const FOOTER_Y = 30;
+
+const FONT_SIZE = 10;
+const LINE_HEIGHT = 14;
+const CELL_PADDING = 5;
+
+// Matches the blue header of the HTML emails
+const BRAND_COLOR = rgb(0.145, 0.388, 0.922);
+const TEXT_COLOR = rgb(0.2, 0.2, 0.2);
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4);
+const RULE_COLOR = rgb(0.85, 0.85, 0.85);
+const TABLE_HEADER_COLOR = rgb(0.96, 0.96, 0.96);
+const WARNING_COLOR = rgb(0.7, 0.25, 0.05);
+
+interface TableColumn {
+	label: string;
+	width: number;
+	align: "left" | "right";
+}
+
+const ITEM_COLUMNS: TableColumn[] = [
+	{ label: "Item #", width: 70, align: "left" },
+	{ label: "Product", width: 232, align: "left" },
+	{ label: "Selection", width: 150, align: "left" },
+	{ label: "Cases", width: 60, align: "right" },
+];
+
+/**
+ * The standard PDF fonts only cover Windows-1252, so characters outside it (e.g. Korean or
+ * Chinese names) print as "?". The HTML email next to the PDF shows them correctly.
+ */
+function createTextSanitizer(font: PDFFont): (text: string) => string {
+	const supported = new Set(font.getCharacterSet());
+	return (text) =>
+		Array.from(text.replace(/\s+/g, " "))
+			.map((character) => (supported.has(character.codePointAt(0) ?? 0) ? character : "?"))
+			.join("");
+}
+
+/**
+ * Splits text into lines that fit maxWidth, breaking words that are longer than a line
+ */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+	const lines: string[] = [];
+	let line = "";
+
+	for (const word of text.split(" ")) {
+		const candidate = line ? `${line} ${word}` : word;
+		if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+			line = candidate;
+			continue;
+		}
+		if (line) {
+			lines.push(line);
+		}
+		line = "";
+		for (const character of word) {
+			if (font.widthOfTextAtSize(line + character, size) > maxWidth && line) {
+				lines.push(line);
+				line = "";
+			}
+			line += character;
+		}
+	}
+	lines.push(line);
+
+	return lines;
+}
+
+/**
+ * Lays out text top to bottom across as many pages as needed
+ */
+class PdfWriter {
+	private page!: PDFPage;
+	private y = 0;
+
+	constructor(
+		private readonly document: PDFDocument,
+		private readonly regular: PDFFont,
+		private readonly bold: PDFFont,
+		private readonly sanitize: (text: string) => string,
+		private readonly title: string
+	) {
+		this.addPage();
+	}
+
+	private addPage(): void {
+		this.page = this.document.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+		this.page.drawRectangle({
+			x: 0,
+			y: PAGE_HEIGHT - HEADER_HEIGHT,
+			width: PAGE_WIDTH,
+			height: HEADER_HEIGHT,
+			color: BRAND_COLOR,
+		});
+		this.page.drawText(COMPANY_NAME, {
+			x: MARGIN,
+			y: PAGE_HEIGHT - 45,
+			size: 20,
+			font: this.bold,
+			color: rgb(1, 1, 1),
+		});
+		const titleWidth = this.bold.widthOfTextAtSize(this.title, 14);
+		this.page.drawText(this.title, {
+			x: PAGE_WIDTH - MARGIN - titleWidth,
+			y: PAGE_HEIGHT - 43,
+			size: 14,
+			font: this.bold,
+			color: rgb(1, 1, 1),
+		});
+		this.y = PAGE_HEIGHT - HEADER_HEIGHT - 30;
+	}
+
+	/**
+	 * Starts a new page when the next `height` points would run into the footer
+	 */
+	ensureSpace(height: number): boolean {
+		if (this.y - height >= MARGIN + 10) {
+			return false;
+		}
+		this.addPage();
+		return true;
+	}
+
+	text(
+		text: string,
+		options: { bold?: boolean; size?: number; color?: ReturnType<typeof rgb>; indent?: number } = {}
+	): void {
+		const font = options.bold ? this.bold : this.regular;
+		const size = options.size ?? FONT_SIZE;
+		const indent = options.indent ?? 0;
+		const lineHeight = size + 4;
+
+		for (const line of wrapText(this.sanitize(text), font, size, CONTENT_WIDTH - indent)) {
+			this.ensureSpace(lineHeight);
+			this.page.drawText(line, {
+				x: MARGIN + indent,
+				y: this.y,
+				size,
+				font,
+				color: options.color ?? TEXT_COLOR,
+			});
+			this.y -= lineHeight;
+		}
+	}
+
+	/**
+	 * A bold label followed by its value, with wrapped lines aligned under the value
+	 */
+	field(label: string, value: string): void {
+		const labelWidth = 110;
+		const lines = wrapText(
+			this.sanitize(value),
+			this.regular,
+			FONT_SIZE,
+			CONTENT_WIDTH - labelWidth
+		);
+
+		this.ensureSpace(lines.length * LINE_HEIGHT);
+		this.page.drawText(this.sanitize(label), {
+			x: MARGIN,
+			y: this.y,
+			size: FONT_SIZE,
+			font: this.bold,
+			color: TEXT_COLOR,
+		});
+		for (const line of lines) {
+			this.page.drawText(line, {
+				x: MARGIN + labelWidth,
+				y: this.y,
+				size: FONT_SIZE,
+				font: this.regular,
+				color: TEXT_COLOR,
+			});
+			this.y -= LINE_HEIGHT;
+		}
+	}
+
+	heading(text: string): void {
+		this.ensureSpace(40);
+		this.y -= 10;
+		this.text(text, { bold: true, size: 13, color: BRAND_COLOR });
+		this.page.drawLine({
+			start: { x: MARGIN, y: this.y + 8 },
+			end: { x: PAGE_WIDTH - MARGIN, y: this.y + 8 },
+			thickness: 0.5,
+			color: RULE_COLOR,
+		});
+		this.y -= 6;
+	}
+
+	/**
+	 * Draws one table row. Header rows are repeated at the top of each new page.
+	 */
+	tableRow(
+		cells: string[],
+		options: { header?: boolean; shaded?: boolean; repeatHeader?: string[] } = {}
+	): void {
+		const font = options.header || options.shaded ? this.bold : this.regular;
+		const cellLines = cells.map((cell, index) =>
+			wrapText(this.sanitize(cell), font, FONT_SIZE, ITEM_COLUMNS[index].width - CELL_PADDING * 2)
+		);
+		const height = Math.max(...cellLines.map((lines) => lines.length)) * LINE_HEIGHT + CELL_PADDING;
+
+		if (this.ensureSpace(height) && options.repeatHeader) {
+			this.tableRow(options.repeatHeader, { header: true });
+		}
+
+		const top = this.y + LINE_HEIGHT - 2;
+		if (options.header || options.shaded) {
+			this.page.drawRectangle({
+				x: MARGIN,
+				y: top - height,
+				width: CONTENT_WIDTH,
+				height,
+				color: TABLE_HEADER_COLOR,
+			});
+		}
+
+		let x = MARGIN;
+		cellLines.forEach((lines, index) => {
+			const column = ITEM_COLUMNS[index];
+			lines.forEach((line, lineIndex) => {
+				const width = font.widthOfTextAtSize(line, FONT_SIZE);
+				this.page.drawText(line, {
+					x: column.align === "right" ? x + column.width - CELL_PADDING - width : x + CELL_PADDING,
+					y: this.y - lineIndex * LINE_HEIGHT,
+					size: FONT_SIZE,
+					font,
+					color: TEXT_COLOR,
+				});
+			});
+			x += column.width;
+		});
+
+		this.page.drawLine({
+			start: { x: MARGIN, y: top - height },
+			end: { x: PAGE_WIDTH - MARGIN, y: top - height },
+			thickness: 0.5,
+			color: RULE_COLOR,
+		});
+		this.y -= height;
+	}
+
+	space(points: number): void {
+		this.y -= points;
+	}
+
+	/**
+	 * Adds "Page n of m" and the reference to every page once the content is laid out
+	 */
+	addFooters(reference: string): void {
+		const pages = this.document.getPages();
+		pages.forEach((page, index) => {
+			const footer = `${reference} - Page ${index + 1} of ${pages.length}`;
+			page.drawText(this.sanitize(footer), {
+				x: MARGIN,
+				y: FOOTER_Y,
+				size: 8,
+				font: this.regular,
+				color: MUTED_COLOR,
+			});
+		});
+	}
+}
+
+/**
+ * Renders a printable PDF of a quote request for the rep notification: contact details, the
+ * requested items and totals. Uses only the standard PDF fonts so it needs no font files.
+ */
+export async function renderQuoteRequestPdf(
+	quoteRequest: QueuedQuoteRequest,
+	territoryNote: string | undefined
+): Promise<Uint8Array> {
+	const { quoteId, contactInfo, quoteItems, metadata, requestContext, duplicateOfQuoteId } =
+		quoteRequest;
+
+	const document = await PDFDocument.create();
+	document.setTitle(`Quote Request ${quoteId}`);
+	document.setAuthor(COMPANY_NAME);
+	document.setCreationDate(new Date(requestContext.receivedAt));
+
+	const regular = await document.embedFont(StandardFonts.Helvetica);
+	const bold = await document.embedFont(StandardFonts.HelveticaBold);
+	const writer = new PdfWriter(
+		document,
+		regular,
+		bold,
+		createTextSanitizer(regular),
+		"Quote Request"
+	);
+
+	writer.text(`Reference: ${quoteId}`, { bold: true, size: 12 });
+	writer.text(`Received: ${new Date(requestContext.receivedAt).toUTCString()}`, {
+		color: MUTED_COLOR,
+	});
+	if (duplicateOfQuoteId) {
+		writer.space(4);
+		writer.text(
+			`Possible duplicate of ${duplicateOfQuoteId}: same customer email and items submitted shortly before.`,
+			{ bold: true, color: WARNING_COLOR }
+		);
+	}
+
+	const { location } = requestContext;
+	writer.heading("Customer");
+	writer.field("Name", contactInfo.name);
+	writer.field("Company", contactInfo.companyName);
+	writer.field("Email", contactInfo.email);
+	writer.field("Phone", contactInfo.phone);
+	writer.field(
+		"Zip code",
+		location ? `${contactInfo.zipCode} (${location.city}, ${location.state})` : contactInfo.zipCode
+	);
+	writer.field("Sales rep", contactInfo.salesRep);
+	if (territoryNote) {
+		writer.field("Territory", territoryNote);
+	}
+
+	writer.heading("Requested Items");
+	const header = ITEM_COLUMNS.map(({ label }) => label);
+	writer.tableRow(header, { header: true });
+	for (const item of quoteItems) {
+		writer.tableRow(
+			[
+				item.itemNumber,
+				item.productName,
+				formatSelection(item, STANDARD_SELECTION),
+				String(item.quantity),
+			],
+			{ repeatHeader: header }
+		);
+	}
+	writer.tableRow(
+		["Total", `${metadata.totalUniqueProducts} product(s)`, "", String(metadata.totalItems)],
+		{ shaded: true, repeatHeader: header }
+	);
+
+	writer.addFooters(`Quote Request ${quoteId}`);
+
+	return document.save();
+}
+
+/**
+ * The PDF as an email attachment named after the quote, e.g. ASD-2026-000123.pdf
+ */
+export async function renderQuoteRequestPdfAttachment(
+	quoteRequest: QueuedQuoteRequest,
+	territoryNote: string | undefined
+): Promise<MimeAttachment> {
+	return {
+		filename: `${quoteRequest.quoteId}.pdf`,
+		contentType: "application/pdf",
+		content: await renderQuoteRequestPdf(quoteRequest, territoryNote),
+	};
+}
@@ -0,0 +1,74 @@
+/**
+ * Minimal rendering helpers for email templates.
+ *
+ * Values interpolated with the `html` tag are HTML-escaped unless they are already
+ * SafeHtml (the result of another `html` call or `trustedHtml`), so customer-supplied
+ * text can never inject markup into an email.
+ */
+
+export interface RenderedEmail {
+	subject: string;
+	htmlBody: string;
+	textBody: string;
+}
+
+export class SafeHtml {
+	constructor(private readonly value: string) {}
+
+	toString(): string {
+		return this.value;
+	}
+}
+
+const HTML_ESCAPES: Record<string, string> = {
+	"&": "&amp;",
+	"<": "&lt;",
+	">": "&gt;",
+	'"': "&quot;",
+	"'": "&#39;",
+};
+
+export function escapeHtml(value: string): string {
+	return value.replace(/[&<>"']/g, (character) => HTML_ESCAPES[character]);
+}
+
+function renderHtmlValue(value: unknown): string {
+	if (value instanceof SafeHtml) {
+		return value.toString();
+	}
+	if (Array.isArray(value)) {
+		return value.map(renderHtmlValue).join("");
+	}
+	if (value === undefined || value === null || value === false) {
+		return "";
+	}
+	return escapeHtml(String(value));
+}
+
+/**
+ * Tagged template that escapes every interpolated value. Arrays are rendered item by item;
+ * undefined, null and false render as nothing so they can be used for optional blocks.
+ */
+export function html(strings: TemplateStringsArray, ...values: unknown[]): SafeHtml {
+	return new SafeHtml(
+		strings.reduce(
+			(result, chunk, index) =>
+				result + chunk + (index < values.length ? renderHtmlValue(values[index]) : ""),
+			""
+		)
+	);
+}
+
+/**
+ * Marks markup as safe to insert without escaping. Never pass customer-supplied text.
+ */
+export function trustedHtml(markup: string): SafeHtml {
+	return new SafeHtml(markup);
+}
+
+/**
+ * Collapses line breaks so a value can be used in a single-line context such as a subject
+ */
+export function singleLine(value: string): string {
+	return value.replace(/[\r\n]+/g, " ").trim();
+}
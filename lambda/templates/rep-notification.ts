@@ -0,0 +1,120 @@
+import type { QueuedQuoteRequest } from "../types";
+import {
+	emailLayout,
+	infoRow,
+	quoteItemsTableHtml,
+	quoteItemsText,
+	section,
+	textSection,
+} from "./partials";
+import { html, type RenderedEmail, singleLine } from "./render";
+
+const ITEM_TABLE_LABELS = {
+	itemNumber: "Item #",
+	product: "Product",
+	selection: "Selection",
+	cases: "Cases",
+	total: "Total",
+};
+
+const STANDARD_SELECTION = "Standard";
+
+const FOOTER_LINES = [
+	"This is an automated message from A & S Distributors quote request system.",
+	"The customer has agreed to be contacted by a sales representative.",
+];
+
+function formatLocation(requestContext: QueuedQuoteRequest["requestContext"]): string {
+	const { location } = requestContext;
+	return location ? `${location.city}, ${location.state}` : "Unknown";
+}
+
+/**
+ * Renders the notification sent to the sales reps a quote is routed to
+ */
+export function renderRepNotification(
+	quoteRequest: QueuedQuoteRequest,
+	territoryNote: string | undefined
+): RenderedEmail {
+	const { quoteId, contactInfo, quoteItems, metadata, requestContext, duplicateOfQuoteId } =
+		quoteRequest;
+	const location = formatLocation(requestContext);
+	const phoneHref = contactInfo.phone.replace(/[^0-9+]/g, "");
+
+	const duplicateNote =
+		duplicateOfQuoteId &&
+		`Possible duplicate of ${duplicateOfQuoteId}: same customer email and items submitted shortly before.`;
+	const subject = singleLine(
+		`${duplicateOfQuoteId ? "[Possible duplicate] " : ""}New Quote Request ${quoteId} from ${contactInfo.name}`
+	);
+
+	const contactRows = html`
+          ${infoRow("Name", contactInfo.name)}
+          ${infoRow("Company", contactInfo.companyName)}
+          ${infoRow("Email", html`<a href="mailto:${contactInfo.email}">${contactInfo.email}</a>`)}
+          ${infoRow("Phone", html`<a href="tel:${phoneHref}">${contactInfo.phone}</a>`)}
+          ${infoRow("Zip code", contactInfo.zipCode)}
+          ${infoRow("Sales rep", contactInfo.salesRep)}
+          ${territoryNote && infoRow("Territory", territoryNote)}`;
+
+	const itemsTable = quoteItemsTableHtml(
+		quoteItems,
+		ITEM_TABLE_LABELS,
+		STANDARD_SELECTION,
+		metadata.totalItems
+	);
+
+	const detailRows = html`
+          ${infoRow("Quote reference", quoteId)}
+          ${duplicateNote && infoRow("Duplicate check", duplicateNote)}
+          ${infoRow("Received", requestContext.receivedAt)}
+          ${infoRow("Location (from zip code)", location)}
+          ${infoRow("Source IP", requestContext.sourceIp)}
+          ${infoRow("User agent", requestContext.userAgent)}
+          ${infoRow("API request ID", requestContext.apiRequestId)}`;
+
+	const htmlBody = emailLayout({
+		lang: "en",
+		heading: "New Quote Request",
+		subheading: duplicateOfQuoteId
+			? `Reference: ${quoteId} (possible duplicate of ${duplicateOfQuoteId})`
+			: `Reference: ${quoteId}`,
+		content: html`
+        ${section("Customer Contact Information", contactRows)}
+        ${section("Requested Items", itemsTable)}
+        ${section("Request Details", detailRows)}`,
+		footerLines: FOOTER_LINES,
+	}).toString();
+
+	const contactLines = [
+		`Name: ${contactInfo.name}`,
+		`Company: ${contactInfo.companyName}`,
+		`Email: ${contactInfo.email}`,
+		`Phone: ${contactInfo.phone}`,
+		`Zip code: ${contactInfo.zipCode}`,
+		`Sales rep: ${contactInfo.salesRep}`,
+		...(territoryNote ? [`Territory: ${territoryNote}`] : []),
+	];
+
+	const textBody = [
+		`NEW QUOTE REQUEST ${quoteId}\n=================`,
+		...(duplicateNote ? [duplicateNote] : []),
+		textSection("Contact Information", contactLines),
+		textSection(
+			`Requested Items (${metadata.totalUniqueProducts} items, ${metadata.totalItems} total cases)`,
+			[quoteItemsText(quoteItems, STANDARD_SELECTION, (quantity) => `${quantity} case(s)`)]
+		),
+		textSection("Request Details", [
+			`Quote reference: ${quoteId}`,
+			...(duplicateNote ? [`Duplicate check: ${duplicateNote}`] : []),
+			`Received: ${requestContext.receivedAt}`,
+			`Location (from zip code): ${location}`,
+			`Source IP: ${requestContext.sourceIp}`,
+			`User agent: ${requestContext.userAgent}`,
+			`API request ID: ${requestContext.apiRequestId}`,
+		]),
+		`---\n${FOOTER_LINES.join("\n")}`,
+	].join("\n\n");
+
+	return { subject, htmlBody, textBody };
+}
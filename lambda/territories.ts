@@ -0,0 +1,164 @@
+import type { SalesRep, SalesRepRegistry } from "./sales-reps";
+
+export interface ZipRange {
+	/**
+	 * Inclusive 5-digit lower bound
+	 */
+	from: string;
+
+	/**
+	 * Inclusive 5-digit upper bound
+	 */
+	to: string;
+}
+
+export interface TerritoryRule {
+	id: string;
+	description: string;
+
+	/**
+	 * Zip code prefixes (1 to 5 digits) covered by this territory.
+	 */
+	zipPrefixes?: string[];
+
+	/**
+	 * Zip code ranges covered by this territory.
+	 */
+	zipRanges?: ZipRange[];
+
+	/**
+	 * Rep who owns new customers in this territory.
+	 */
+	primaryRepId: string;
+
+	/**
+	 * Rep who takes over when the primary rep is inactive.
+	 */
+	fallbackRepId: string;
+}
+
+export interface TerritoryRouting {
+	rule: TerritoryRule;
+	rep: SalesRep;
+	usedFallback: boolean;
+}
+
+const ZIP_PREFIX_REGEX = /^[0-9]{1,5}$/;
+const ZIP5_REGEX = /^[0-9]{5}$/;
+
+/**
+ * Returns the 5-digit zip code from a zip or ZIP+4 value
+ */
+export function normalizeZipCode(zipCode: string): string {
+	return zipCode.trim().slice(0, 5);
+}
+
+function ruleMatches(rule: TerritoryRule, zip5: string): boolean {
+	const matchesPrefix = (rule.zipPrefixes ?? []).some((prefix) => zip5.startsWith(prefix));
+	const matchesRange = (rule.zipRanges ?? []).some(
+		(range) => zip5 >= range.from && zip5 <= range.to
+	);
+	return matchesPrefix || matchesRange;
+}
+
+/**
+ * Returns the first territory rule covering the zip code
+ */
+export function findTerritoryRule(
+	rules: TerritoryRule[],
+	zipCode: string
+): TerritoryRule | undefined {
+	const zip5 = normalizeZipCode(zipCode);
+	return rules.find((rule) => ruleMatches(rule, zip5));
+}
+
+/**
+ * Resolves the single rep who owns a new customer in the given zip code.
+ * Returns undefined when no rule matches or neither the primary nor the fallback rep is active.
+ */
+export function resolveTerritory(
+	rules: TerritoryRule[],
+	registry: SalesRepRegistry,
+	zipCode: string
+): TerritoryRouting | undefined {
+	const rule = findTerritoryRule(rules, zipCode);
+	if (!rule) {
+		return undefined;
+	}
+
+	const findActiveRep = (repId: string) =>
+		registry.reps.find((rep) => rep.active && rep.id === repId);
+
+	const primaryRep = findActiveRep(rule.primaryRepId);
+	if (primaryRep) {
+		return { rule, rep: primaryRep, usedFallback: false };
+	}
+
+	const fallbackRep = findActiveRep(rule.fallbackRepId);
+	if (fallbackRep) {
+		return { rule, rep: fallbackRep, usedFallback: true };
+	}
+
+	return undefined;
+}
+
+/**
+ * Explains to the rep why a new customer was routed to them
+ */
+export function describeTerritoryRouting(
+	routing: TerritoryRouting | undefined,
+	zipCode: string
+): string {
+	const zip5 = normalizeZipCode(zipCode);
+
+	if (!routing) {
+		return `Zip ${zip5} did not match a territory with an active rep; sent to all new customer reps.`;
+	}
+
+	const { rule, rep, usedFallback } = routing;
+	const assignment = usedFallback
+		? `primary rep unavailable, assigned to fallback rep ${rep.name}`
+		: `assigned to ${rep.name}`;
+
+	return `Zip ${zip5} matched territory "${rule.id}" (${rule.description}); ${assignment}.`;
+}
+
+/**
+ * Checks the territory table for malformed zip rules, duplicate IDs and unknown rep IDs
+ */
+export function validateTerritoryRules(
+	rules: TerritoryRule[],
+	registry: SalesRepRegistry
+): string[] {
+	const errors: string[] = [];
+	const ruleIds = new Set<string>();
+	const repIds = new Set(registry.reps.map((rep) => rep.id));
+
+	for (const rule of rules) {
+		if (ruleIds.has(rule.id)) {
+			errors.push(`Duplicate territory id "${rule.id}"`);
+		}
+		ruleIds.add(rule.id);
+
+		if ((rule.zipPrefixes ?? []).length === 0 && (rule.zipRanges ?? []).length === 0) {
+			errors.push(`Territory "${rule.id}" has no zipPrefixes or zipRanges`);
+		}
+		for (const prefix of rule.zipPrefixes ?? []) {
+			if (!ZIP_PREFIX_REGEX.test(prefix)) {
+				errors.push(`Territory "${rule.id}" has invalid zip prefix "${prefix}"`);
+			}
+		}
+		for (const range of rule.zipRanges ?? []) {
+			if (!ZIP5_REGEX.test(range.from) || !ZIP5_REGEX.test(range.to) || range.from > range.to) {
+				errors.push(`Territory "${rule.id}" has invalid zip range ${range.from}-${range.to}`);
+			}
+		}
+		for (const repId of [rule.primaryRepId, rule.fallbackRepId]) {
+			if (!repIds.has(repId)) {
+				errors.push(`Territory "${rule.id}" references unknown rep id "${repId}"`);
+			}
+		}
+	}
+
+	return errors;
+}
@@ -0,0 +1,44 @@
+import type { TerritoryRule } from "./territories";
+
+/**
+ * Territories used to route "New customer" submissions to a single owner.
+ * Rules are checked in order and the first match wins, so list narrower rules first.
+ * Rep IDs refer to the sales rep registry.
+ */
+export const TERRITORY_RULES: TerritoryRule[] = [
+	{
+		id: "stockton-lodi",
+		description: "San Joaquin County (952xx)",
+		zipPrefixes: ["952"],
+		primaryRepId: "judith",
+		fallbackRepId: "sanjay",
+	},
+	{
+		id: "modesto-merced",
+		description: "Stanislaus, Merced and Tuolumne counties (953xx)",
+		zipPrefixes: ["953"],
+		primaryRepId: "sanjay",
+		fallbackRepId: "judith",
+	},
+	{
+		id: "sacramento",
+		description: "Greater Sacramento (95600-95899)",
+		zipRanges: [{ from: "95600", to: "95899" }],
+		primaryRepId: "ajay",
+		fallbackRepId: "sanjay",
+	},
+	{
+		id: "fresno",
+		description: "Fresno, Madera and Kings counties (936xx-937xx)",
+		zipPrefixes: ["936", "937"],
+		primaryRepId: "sanjay",
+		fallbackRepId: "judith",
+	},
+	{
+		id: "bay-area",
+		description: "San Francisco Bay Area (940xx-951xx)",
+		zipRanges: [{ from: "94000", to: "95199" }],
+		primaryRepId: "judith",
+		fallbackRepId: "ajay",
+	},
+];
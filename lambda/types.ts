@@ -1,29 +1,74 @@
-export const SALES_REP_OPTIONS = ["Judith", "Sanjay", "Ajay", "New customer"] as const;
-
-export type SalesRepOption = (typeof SALES_REP_OPTIONS)[number];
-
-export type QuoteItem = {
-	productName: string;
-	itemNumber: string;
-	quantity: number;
-	variantLabel?: string;
-	variantValue?: string;
-};
-
-export interface QuoteRequestPayload {
-	contactInfo: {
-		name: string;
-		companyName: string;
-		email: string;
-		phone: string;
-		zipCode: string;
-		salesRep: SalesRepOption;
-	};
-	quoteItems: QuoteItem[];
-	metadata: {
-		totalItems: number;
-		totalUniqueProducts: number;
-		submittedAt: string;
-	};
-	agreedToContact: boolean;
+import type { QuoteItem, QuoteRequestPayload } from "../schema/quote-request-payload.v1";
+
+/**
+ * Option customers pick when they do not have a sales rep yet
+ */
+export const NEW_CUSTOMER_OPTION = "New customer";
+
+/**
+ * Name of an active rep from the sales rep registry, or NEW_CUSTOMER_OPTION
+ */
+export type SalesRepOption = string;
+
+/**
+ * Locales served by the frontend. Also used to pick the language of customer-facing emails.
+ */
+export const LOCALES = ["en", "es", "sm", "ko", "zh"] as const;
+
+export type Locale = (typeof LOCALES)[number];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+/**
+ * Version of schema/quote-request-payload.v*.schema.json that queued messages follow
+ */
+export const QUOTE_REQUEST_SCHEMA_VERSION = 1;
+
+/**
+ * API response header carrying the ID that ties a submission to the email processor's logs
+ * and the SES events for its emails. Customers can quote it when contacting support.
+ */
+export const CORRELATION_ID_HEADER = "X-Correlation-Id";
+
+/**
+ * Generated from the versioned JSON schema shared with the frontend
+ */
+export type { QuoteItem, QuoteRequestPayload };
+
+/**
+ * Item totals and submission time, computed by the API handler from the quote items
+ */
+export type QuoteMetadata = NonNullable<QuoteRequestPayload["metadata"]>;
+
+export interface ZipLocation {
+	city: string;
+	state: string;
+}
+
+/**
+ * Server-side context captured by the API handler when a quote request is received
+ */
+export interface RequestContext {
+	receivedAt: string;
+	apiRequestId: string;
+	sourceIp: string;
+	userAgent: string;
+	/**
+	 * Derived from contactInfo.zipCode. Absent when the zip code is not in the lookup dataset.
+	 */
+	location?: ZipLocation;
+}
+
+/**
+ * Message placed on the quote request queue by the API handler
+ */
+export interface QueuedQuoteRequest extends Omit<QuoteRequestPayload, "metadata"> {
+	schemaVersion: typeof QUOTE_REQUEST_SCHEMA_VERSION;
+	quoteId: string;
+	metadata: QuoteMetadata;
+	requestContext: RequestContext;
+	/**
+	 * Set when the same customer submitted the same items shortly before
+	 */
+	duplicateOfQuoteId?: string;
 }
@@ -0,0 +1,209 @@
+import type * as amplify from "aws-cdk-lib/aws-amplify";
+import * as fs from "node:fs";
+import { DEFAULT_LOCALE, LOCALES, type Locale } from "../lambda/types";
+import type { CaptchaConfig } from "./quote-request-stack";
+
+export interface SiteHeadersConfig {
+	/**
+	 * Every quote API the site's builds call, e.g. production's and the one previews use. Their
+	 * origins are allowed in the CSP connect-src.
+	 */
+	quoteApiUrls: string[];
+
+	/**
+	 * Allows the provider's widget script and frame in the CSP
+	 */
+	captchaProvider?: CaptchaConfig["provider"];
+}
+
+export interface SiteRedirect {
+	/**
+	 * Path on the site, e.g. /products/old-page.html
+	 */
+	source: string;
+	/**
+	 * Path on the site or absolute https:// URL
+	 */
+	target: string;
+	status: "301" | "302";
+}
+
+export interface SiteRulesConfig {
+	/**
+	 * Old URLs still linked from elsewhere, checked before every other rule
+	 */
+	legacyRedirects: SiteRedirect[];
+}
+
+/**
+ * Countries whose visitors land on a locale other than DEFAULT_LOCALE when they open the site's
+ * root, by ISO 3166-1 alpha-2 code
+ */
+export const COUNTRY_LOCALES: Readonly<Record<string, Locale>> = {
+	MX: "es",
+	ES: "es",
+	AR: "es",
+	CO: "es",
+	WS: "sm",
+	AS: "sm",
+	KR: "ko",
+	CN: "zh",
+	TW: "zh",
+	HK: "zh",
+};
+
+const CACHE_IMMUTABLE = "public, max-age=31536000, immutable";
+
+const CAPTCHA_SOURCES: Record<CaptchaConfig["provider"], string> = {
+	turnstile: "https://challenges.cloudflare.com",
+};
+
+interface HeaderRule {
+	pattern: string;
+	headers: Record<string, string>;
+}
+
+/**
+ * The static export cannot carry per-request nonces, so Next.js' inline bootstrap scripts and
+ * styles need 'unsafe-inline'
+ */
+function buildContentSecurityPolicy(config: SiteHeadersConfig): string {
+	const captchaSources = config.captchaProvider ? [CAPTCHA_SOURCES[config.captchaProvider]] : [];
+	const apiOrigins = [...new Set(config.quoteApiUrls.map((url) => new URL(url).origin))];
+	const directives: Record<string, string[]> = {
+		"default-src": ["'self'"],
+		"script-src": ["'self'", "'unsafe-inline'", ...captchaSources],
+		"style-src": ["'self'", "'unsafe-inline'"],
+		"img-src": ["'self'", "data:"],
+		"font-src": ["'self'", "data:"],
+		"connect-src": ["'self'", ...apiOrigins],
+		"frame-src": captchaSources.length > 0 ? captchaSources : ["'none'"],
+		"object-src": ["'none'"],
+		"base-uri": ["'self'"],
+		"form-action": ["'self'"],
+		"frame-ancestors": ["'none'"],
+	};
+	return Object.entries(directives)
+		.map(([directive, sources]) => `${directive} ${sources.join(" ")}`)
+		.join("; ");
+}
+
+function toYaml(rules: HeaderRule[]): string {
+	// JSON strings are valid YAML double-quoted scalars, which keeps CSP quotes and colons intact
+	const lines = rules.flatMap(({ pattern, headers }) => [
+		`  - pattern: ${JSON.stringify(pattern)}`,
+		"    headers:",
+		...Object.entries(headers).flatMap(([key, value]) => [
+			`      - key: ${key}`,
+			`        value: ${JSON.stringify(value)}`,
+		]),
+	]);
+	return `customHeaders:\n${lines.join("\n")}\n`;
+}
+
+/**
+ * Custom headers YAML for CfnApp: caching per path, and security headers on every response
+ */
+export function buildCustomHeaders(config: SiteHeadersConfig): string {
+	return toYaml([
+		{
+			pattern: "**",
+			headers: {
+				"Strict-Transport-Security": "max-age=63072000; includeSubDomains",
+				"Content-Security-Policy": buildContentSecurityPolicy(config),
+				"X-Content-Type-Options": "nosniff",
+				"Referrer-Policy": "strict-origin-when-cross-origin",
+				"Permissions-Policy": "camera=(), microphone=(), geolocation=(), payment=(), usb=()",
+			},
+		},
+		// Keep hashed assets cached forever in the browser, else always revalidate with the CDN
+		{ pattern: "**/*.{webp,svg,ico,WEBP}", headers: { "Cache-Control": CACHE_IMMUTABLE } },
+		{ pattern: "_next/**", headers: { "Cache-Control": CACHE_IMMUTABLE } },
+		{
+			pattern: "*",
+			headers: { "Cache-Control": "max-age=0, s-maxage=600, must-revalidate" },
+		},
+	]);
+}
+
+/**
+ * Redirect rules for CfnApp. Amplify applies the first matching rule, so legacy URLs come first,
+ * then the root's country-based redirects and finally the default locale.
+ */
+export function buildCustomRules(config: SiteRulesConfig): amplify.CfnApp.CustomRuleProperty[] {
+	return [
+		...config.legacyRedirects.map(({ source, target, status }) => ({ source, target, status })),
+		// The root's redirects are temporary, the default one included, so a browser never caches
+		// one answer and still gets the country rules on a later visit
+		...Object.entries(COUNTRY_LOCALES).map(([country, locale]) => ({
+			source: "/",
+			target: `/${locale}/home`,
+			status: "302",
+			condition: `<${country}>`,
+		})),
+		{ source: "/", target: `/${DEFAULT_LOCALE}/home`, status: "302" },
+		...LOCALES.flatMap((locale) => [
+			{ source: `/${locale}`, target: `/${locale}/home`, status: "301" },
+			{ source: `/${locale}/`, target: `/${locale}/home`, status: "301" },
+		]),
+	];
+}
+
+/**
+ * Paths the generated rules own, which a legacy redirect must not shadow
+ */
+const GENERATED_SOURCES = new Set([
+	"/",
+	...LOCALES.flatMap((locale) => [`/${locale}`, `/${locale}/`]),
+]);
+
+function parseLegacyRedirect(value: unknown, index: number): SiteRedirect {
+	if (!value || typeof value !== "object" || Array.isArray(value)) {
+		throw new Error(`legacy redirect ${index} must be an object`);
+	}
+
+	const source = Reflect.get(value, "source");
+	const target = Reflect.get(value, "target");
+	const status = Reflect.get(value, "status") ?? "301";
+
+	if (typeof source !== "string" || !source.startsWith("/")) {
+		throw new Error(`legacy redirect ${index}: source must be a path starting with /`);
+	}
+	if (GENERATED_SOURCES.has(source)) {
+		throw new Error(`legacy redirect ${index}: ${source} is redirected to its locale's home page`);
+	}
+	if (
+		typeof target !== "string" ||
+		!(target.startsWith("/") || (URL.canParse(target) && target.startsWith("https://")))
+	) {
+		throw new Error(`legacy redirect ${index}: target must be a path or an https:// URL`);
+	}
+	if (status !== "301" && status !== "302") {
+		throw new Error(`legacy redirect ${index}: status must be "301" or "302"`);
+	}
+	return { source, target, status };
+}
+
+/**
+ * Reads a JSON array of {"source", "target", "status"?} redirects. status defaults to "301".
+ */
+export function loadLegacyRedirects(file: string): SiteRedirect[] {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(fs.readFileSync(file, "utf-8"));
+	} catch (error) {
+		throw new Error(`Cannot read legacy redirects from ${file}: ${error}`);
+	}
+	if (!Array.isArray(parsed)) {
+		throw new Error(`${file} must hold a JSON array of redirects`);
+	}
+
+	const redirects = parsed.map(parseLegacyRedirect);
+	const duplicate = redirects.find(
+		({ source }, index) => redirects.findIndex((other) => other.source === source) !== index
+	);
+	if (duplicate) {
+		throw new Error(`${file} redirects ${duplicate.source} more than once`);
+	}
+	return redirects;
+}
@@ -2,11 +2,57 @@ import * as cdk from "aws-cdk-lib";
 import * as amplify from "aws-cdk-lib/aws-amplify";
 import * as iam from "aws-cdk-lib/aws-iam";
 import type { Construct } from "constructs";
+import { buildCustomHeaders, buildCustomRules, type SiteRedirect } from "./amplify-site-config";
+import type { CaptchaConfig } from "./quote-request-stack";
+import { type Stage, stageResourceName } from "./stage";
+
+/**
+ * A branch deployed next to the production branch, e.g. develop on develop.example.com
+ */
+export interface AmplifyBranchConfig {
+	branchName: string;
+	/**
+	 * Subdomain of the stage's domain to serve the branch from, e.g. "develop". Without one the
+	 * branch is only reachable on its amplifyapp.com URL.
+	 */
+	subdomain?: string;
+	/**
+	 * Overrides of the app's environment variables for this branch, e.g. NEXT_PUBLIC_QUOTE_API_URL
+	 */
+	environmentVariables: Record<string, string>;
+}
+
+/**
+ * Settings for every build other than the production branch: additional branches and
+ * pull request previews
+ */
+export interface AmplifyPreviewConfig {
+	/**
+	 * Builds a preview for each pull request against the production or an additional branch
+	 */
+	pullRequestPreviews: boolean;
+	/**
+	 * Quote API that non-production builds call instead of the live one, e.g.
+	 * https://api.staging.example.com/v1/
+	 */
+	quoteApiUrl: string;
+	/**
+	 * Secrets Manager secret with a JSON {"username": ..., "password": ...} value that guards
+	 * non-production builds with basic auth
+	 */
+	basicAuthSecretName: string;
+}
 
 interface AmplifyStackProps extends cdk.StackProps {
+	/**
+	 * The deployment this stack belongs to. Prefixes the app name outside production.
+	 */
+	stage: Stage;
+
 	/**
 	 * GitHub OAuth token for accessing the repository.
-	 * Must have repo permissions.
+	 * Must have repo permissions. Pass a Secrets Manager reference so the template only holds
+	 * a dynamic reference that CloudFormation resolves at deploy time.
 	 */
 	githubToken: cdk.SecretValue;
 
@@ -26,27 +72,47 @@ interface AmplifyStackProps extends cdk.StackProps {
 	githubBranch: string;
 
 	/**
-	 * The API Gateway URL from the QuoteRequestStack.
-	 * Will be exposed as NEXT_PUBLIC_QUOTE_API_URL environment variable.
+	 * The API's base URL on its custom domain from the QuoteRequestStack, e.g.
+	 * https://api.example.com/v1/. Will be exposed as NEXT_PUBLIC_QUOTE_API_URL environment variable.
 	 */
 	quoteApiUrl: string;
 
 	/**
-	 * The custom domain name to associate with the Amplify app.
+	 * The custom domain name to associate with the Amplify app: the root domain in production,
+	 * the stage's subdomain (e.g. staging.example.com) elsewhere.
 	 */
 	domainName: string;
-}
 
-const LOCALES = ["en", "es", "sm", "ko", "zh"];
+	/**
+	 * Branches deployed next to githubBranch. Requires previews.
+	 */
+	additionalBranches: AmplifyBranchConfig[];
+
+	/**
+	 * Pull request previews, and the API and basic auth non-production builds use. Without it
+	 * only githubBranch is built.
+	 */
+	previews?: AmplifyPreviewConfig;
+
+	/**
+	 * The quote form's captcha, whose widget the Content-Security-Policy must allow
+	 */
+	captchaProvider?: CaptchaConfig["provider"];
+
+	/**
+	 * Old URLs redirected before the locale redirects
+	 */
+	legacyRedirects: SiteRedirect[];
+}
 
 export class AmplifyStack extends cdk.Stack {
 	public readonly amplifyApp: amplify.CfnApp;
 	public readonly amplifyBranch: amplify.CfnBranch;
+	public readonly additionalBranches: amplify.CfnBranch[];
 
 	constructor(scope: Construct, id: string, props: AmplifyStackProps) {
 		super(scope, id, props);
 
-		const immutableValue = "public, max-age=31536000, immutable";
 		// Build spec for Next.js SSG
 		const buildSpec = `
 version: 1
@@ -68,23 +134,6 @@ frontend:
             - public/images/next-image-export-optimizer-hashes.json
 `;
 
-		// Custom headers for caching. Keep _next assets cached forever in the browser, else don't cache always fetch from CDN
-		const customHeaders = `
-customHeaders:
-  - pattern: "**/*.{webp,svg,ico,WEBP}"
-    headers:
-      - key: Cache-Control
-        value: ${immutableValue}
-  - pattern: _next/**
-    headers:
-      - key: Cache-Control
-        value: ${immutableValue}
-  - pattern: "*"
-    headers:
-      - key: Cache-Control
-        value: max-age=0, s-maxage=600, must-revalidate
-`;
-
 		// IAM role for Amplify to use during builds
 		// Include both global and regional service principals
 		const amplifyRole = new iam.Role(this, "AmplifyServiceRole", {
@@ -100,29 +149,49 @@ customHeaders:
 			iam.ManagedPolicy.fromAwsManagedPolicyName("AdministratorAccess-Amplify")
 		);
 
-		// Create Amplify App
+		const { previews } = props;
+		const basicAuth = previews && {
+			username: cdk.SecretValue.secretsManager(previews.basicAuthSecretName, {
+				jsonField: "username",
+			}).unsafeUnwrap(),
+			password: cdk.SecretValue.secretsManager(previews.basicAuthSecretName, {
+				jsonField: "password",
+			}).unsafeUnwrap(),
+		};
+
+		// Create Amplify App. With previews, the app-level settings are the non-production ones:
+		// pull request previews are created by Amplify, not by this stack, and only inherit them.
+		// The production branch overrides both.
 		this.amplifyApp = new amplify.CfnApp(this, "AmplifyApp", {
-			name: "as-distributors-frontend",
+			name: stageResourceName(props.stage, "frontend"),
 			description: "AS Distributors Next.js frontend application",
 			repository: `https://github.com/${props.githubOwner}/${props.githubRepo}`,
 			accessToken: props.githubToken.unsafeUnwrap(),
 			platform: "WEB",
 			buildSpec,
-			customHeaders,
-			customRules: [
-				{ source: "/", target: "/en/home", status: "301" },
-				...LOCALES.flatMap((locale) => [
-					{ source: `/${locale}`, target: `/${locale}/home`, status: "301" },
-					{ source: `/${locale}/`, target: `/${locale}/home`, status: "301" },
-				]),
-			],
+			customHeaders: buildCustomHeaders({
+				quoteApiUrls: [
+					props.quoteApiUrl,
+					...(previews ? [previews.quoteApiUrl] : []),
+					...props.additionalBranches.flatMap(({ environmentVariables }) =>
+						environmentVariables.NEXT_PUBLIC_QUOTE_API_URL
+							? [environmentVariables.NEXT_PUBLIC_QUOTE_API_URL]
+							: []
+					),
+				],
+				captchaProvider: props.captchaProvider,
+			}),
+			customRules: buildCustomRules({ legacyRedirects: props.legacyRedirects }),
 			iamServiceRole: amplifyRole.roleArn,
 			environmentVariables: [
 				{
 					name: "NEXT_PUBLIC_QUOTE_API_URL",
-					value: props.quoteApiUrl,
+					value: previews?.quoteApiUrl ?? props.quoteApiUrl,
 				},
 			],
+			basicAuthConfig: basicAuth && { enableBasicAuth: true, ...basicAuth },
+			// Removes the previews of closed pull requests
+			enableBranchAutoDeletion: previews?.pullRequestPreviews,
 		});
 
 		// Create branch
@@ -130,9 +199,33 @@ customHeaders:
 			appId: this.amplifyApp.attrAppId,
 			branchName: props.githubBranch,
 			enableAutoBuild: true,
-			stage: "PRODUCTION",
+			stage: props.stage === "prod" ? "PRODUCTION" : "BETA",
+			enablePullRequestPreview: previews?.pullRequestPreviews,
+			...(basicAuth && {
+				environmentVariables: [{ name: "NEXT_PUBLIC_QUOTE_API_URL", value: props.quoteApiUrl }],
+				// CloudFormation requires the credentials even when basic auth is off
+				basicAuthConfig: { enableBasicAuth: false, ...basicAuth },
+			}),
 		});
 
+		this.additionalBranches = props.additionalBranches.map(
+			(branch) =>
+				new amplify.CfnBranch(
+					this,
+					`AmplifyBranch-${branch.branchName.replace(/[^A-Za-z0-9]/g, "-")}`,
+					{
+						appId: this.amplifyApp.attrAppId,
+						branchName: branch.branchName,
+						enableAutoBuild: true,
+						stage: "DEVELOPMENT",
+						enablePullRequestPreview: previews?.pullRequestPreviews,
+						environmentVariables: Object.entries(branch.environmentVariables).map(
+							([name, value]) => ({ name, value })
+						),
+					}
+				)
+		);
+
 		new amplify.CfnDomain(this, "AmplifyDomain", {
 			appId: this.amplifyApp.attrAppId,
 			domainName: props.domainName,
@@ -141,10 +234,15 @@ customHeaders:
 					branchName: this.amplifyBranch.branchName,
 					prefix: "",
 				},
-				{
-					branchName: this.amplifyBranch.branchName,
-					prefix: "www",
-				},
+				// Only production is also served from www
+				...(props.stage === "prod"
+					? [{ branchName: this.amplifyBranch.branchName, prefix: "www" }]
+					: []),
+				...props.additionalBranches.flatMap(({ subdomain }, index) =>
+					subdomain
+						? [{ branchName: this.additionalBranches[index].branchName, prefix: subdomain }]
+						: []
+				),
 			],
 		});
 
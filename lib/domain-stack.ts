@@ -4,6 +4,15 @@ import * as acm from "aws-cdk-lib/aws-certificatemanager";
 import type { Construct } from "constructs";
 
 interface DomainStackProps extends cdk.StackProps {
+	/**
+	 * The Route 53 hosted zone's domain, e.g. example.com
+	 */
+	hostedZoneName: string;
+
+	/**
+	 * The domain the stage is served from, e.g. example.com or staging.example.com.
+	 * The certificate covers it and its subdomains.
+	 */
 	domainName: string;
 }
 
@@ -15,7 +24,7 @@ export class DomainStack extends cdk.Stack {
 		super(scope, id, props);
 
 		this.hostedZone = route53.HostedZone.fromLookup(this, "HostedZone", {
-			domainName: props.domainName,
+			domainName: props.hostedZoneName,
 		});
 
 		this.certificate = new acm.Certificate(this, "Certificate", {
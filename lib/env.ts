@@ -1,10 +1,32 @@
 import * as dotenv from "dotenv";
 import * as path from "node:path";
+import { parseChatWebhookFormat } from "../lambda/chat-webhook";
+import { parsePiiPolicy } from "../lambda/logger";
+import { parseExportColumns, parseQuoteExportFormat } from "../lambda/quote-export";
+import { loadLegacyRedirects, type SiteRedirect } from "./amplify-site-config";
+import type { AmplifyBranchConfig, AmplifyPreviewConfig } from "./amplify-stack";
+import { parseStage, STAGE_SUBDOMAINS, type Stage, stageParameterName } from "./stage";
+import type {
+	CaptchaConfig,
+	ChatNotificationsConfig,
+	EmailProcessingConfig,
+	QuoteExportConfig,
+} from "./quote-request-stack";
 
-// Load .env file from the cdk directory
+/**
+ * Which deployment to synthesize: dev, staging or prod. Set it in the shell, e.g.
+ * `STAGE=staging npx cdk deploy --all`, since it decides which .env file is loaded.
+ */
+const stage = parseStage(process.env.STAGE);
+
+// Load .env.<stage> and then the shared .env file from the cdk directory. Values already set
+// are not overwritten, so the shell wins over .env.<stage>, which wins over .env.
+dotenv.config({ path: path.join(__dirname, `../.env.${stage}`), quiet: true });
 dotenv.config({ path: path.join(__dirname, "../.env") });
 
 interface EnvConfig {
+	STAGE: Stage;
+
 	// AWS Configuration
 	CDK_DEFAULT_ACCOUNT: string;
 	CDK_DEFAULT_REGION: string;
@@ -13,29 +35,158 @@ interface EnvConfig {
 	DOMAIN_NAME: string;
 
 	// Quote Request Stack Configuration
-	SALE_REP_EMAIL_MAP: Record<"Judith" | "Sanjay" | "Ajay", string>;
+	SALES_REP_REGISTRY_PARAMETER: string;
 	ALLOWED_ORIGINS: string[];
+	CAPTCHA: CaptchaConfig | undefined;
+	CATALOG_URL: string | undefined;
+	REP_EMAIL_SANDBOX: string | undefined;
+	LEGACY_REP_EMAIL_IDENTITIES: string[];
+	EMAIL_PROCESSING: EmailProcessingConfig;
+	LOG_PII_POLICY: string | undefined;
+	QUOTE_EXPORT: QuoteExportConfig;
+	ALARM_EMAILS: string[];
+	CHAT_NOTIFICATIONS: ChatNotificationsConfig | undefined;
 
 	// Amplify Stack Configuration
-	GITHUB_TOKEN: string;
+	GITHUB_TOKEN_SECRET_NAME: string;
 	GITHUB_OWNER: string;
 	GITHUB_REPO: string;
 	GITHUB_BRANCH: string;
+	AMPLIFY_BRANCHES: AmplifyBranchConfig[];
+	AMPLIFY_PREVIEWS: AmplifyPreviewConfig | undefined;
+	LEGACY_REDIRECTS: SiteRedirect[];
 }
 
-const REQUIRED_SALES_REP_EMAIL_KEYS = ["Judith", "Sanjay", "Ajay"] as const;
-
 function getRequiredEnv(key: string): string {
 	const value = process.env[key];
 	if (!value) {
 		throw new Error(
 			`Missing required environment variable: ${key}. ` +
-				`Please copy .env.example to .env and fill in the values.`
+				`Please copy .env.example to .env (or .env.${stage}) and fill in the values.`
+		);
+	}
+	return value;
+}
+
+function parseCaptchaConfig(): CaptchaConfig | undefined {
+	const provider = process.env.CAPTCHA_PROVIDER;
+	if (!provider) {
+		return undefined;
+	}
+	if (provider !== "turnstile") {
+		throw new Error(`Unsupported CAPTCHA_PROVIDER: ${provider}. Supported providers: turnstile.`);
+	}
+	return { provider, secretName: getRequiredEnv("CAPTCHA_SECRET_NAME") };
+}
+
+function parseCatalogUrl(): string | undefined {
+	const value = process.env.CATALOG_URL;
+	if (!value) {
+		return undefined;
+	}
+	if (!URL.canParse(value) || new URL(value).protocol !== "https:") {
+		throw new Error("CATALOG_URL must be an https:// URL.");
+	}
+	return value;
+}
+
+/**
+ * Required outside production, so a staging or dev deployment cannot email the real reps
+ */
+function parseRepEmailSandbox(): string | undefined {
+	const value = process.env.REP_EMAIL_SANDBOX?.trim();
+	if (!value) {
+		if (stage !== "prod") {
+			throw new Error(`REP_EMAIL_SANDBOX is required for the ${stage} stage.`);
+		}
+		return undefined;
+	}
+	if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+		throw new Error("REP_EMAIL_SANDBOX must be an email address.");
+	}
+	return value;
+}
+
+/**
+ * The stack verified one SES identity per rep in this order before the sales rep registry
+ * replaced SALE_REP_EMAIL_MAP. Their logical IDs are numbered by it.
+ */
+const LEGACY_SALES_REP_ORDER = ["Sanjay", "Judith", "Ajay"];
+
+/**
+ * Read in production only: the other stages were created after the registry
+ */
+function parseLegacyRepEmailIdentities(): string[] {
+	const value = process.env.SALE_REP_EMAIL_MAP;
+	if (!value || stage !== "prod") {
+		return [];
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(value);
+	} catch {
+		throw new Error("SALE_REP_EMAIL_MAP must be a JSON object of rep names to email addresses.");
+	}
+	const emails = LEGACY_SALES_REP_ORDER.map((rep) =>
+		parsed && typeof parsed === "object" ? Reflect.get(parsed, rep) : undefined
+	);
+	if (!emails.every((email) => typeof email === "string" && email.trim().length > 0)) {
+		throw new Error(
+			`SALE_REP_EMAIL_MAP must map ${LEGACY_SALES_REP_ORDER.join(", ")} to email addresses.`
 		);
 	}
+	return [...new Set(emails.map((email) => String(email).trim()))];
+}
+
+function parseOptionalNumber(key: string, defaultValue: number, min: number, max: number): number {
+	const raw = process.env[key];
+	if (!raw) {
+		return defaultValue;
+	}
+	const value = Number(raw);
+	if (!Number.isFinite(value) || value < min || value > max) {
+		throw new Error(`${key} must be a number from ${min} to ${max}.`);
+	}
 	return value;
 }
 
+function parseEmailProcessingConfig(): EmailProcessingConfig {
+	return {
+		batchSize: Math.floor(parseOptionalNumber("EMAIL_BATCH_SIZE", 10, 1, 100)),
+		maxBatchingWindowSeconds: Math.floor(
+			parseOptionalNumber("EMAIL_BATCHING_WINDOW_SECONDS", 5, 0, 300)
+		),
+		sesMaxSendRate: parseOptionalNumber("SES_MAX_SEND_RATE", 1, 0.1, 1000),
+	};
+}
+
+/**
+ * Validated here so a typo fails the synth rather than every Lambda cold start
+ */
+function parseLogPiiPolicy(): string | undefined {
+	const policy = process.env.LOG_PII_POLICY || undefined;
+	parsePiiPolicy(policy);
+	return policy;
+}
+
+function parseQuoteExportConfig(): QuoteExportConfig {
+	const columns = process.env.QUOTE_EXPORT_COLUMNS || undefined;
+	parseExportColumns(columns);
+	return { format: parseQuoteExportFormat(process.env.QUOTE_EXPORT_FORMAT), columns };
+}
+
+function parseChatNotificationsConfig(): ChatNotificationsConfig | undefined {
+	const format = process.env.CHAT_WEBHOOK_FORMAT;
+	if (!format) {
+		return undefined;
+	}
+	return {
+		format: parseChatWebhookFormat(format),
+		webhookSecretName: getRequiredEnv("CHAT_WEBHOOK_SECRET_NAME"),
+	};
+}
+
 function parseCommaSeparatedList(value: string): string[] {
 	return value
 		.split(",")
@@ -43,57 +194,141 @@ function parseCommaSeparatedList(value: string): string[] {
 		.filter((item) => item.length > 0);
 }
 
-function isSalesRepEmailMap(value: unknown): value is Record<"Judith" | "Sanjay" | "Ajay", string> {
+const AMPLIFY_BRANCHES_EXAMPLE =
+	'[{"branchName":"develop","subdomain":"develop",' +
+	'"environmentVariables":{"NEXT_PUBLIC_QUOTE_API_URL":"https://api.staging.example.com/v1/"}}]';
+
+/**
+ * Subdomains already taken by the production branch, the API and, under the root domain, the
+ * other stages
+ */
+const RESERVED_SUBDOMAINS = ["www", "api", ...STAGE_SUBDOMAINS];
+
+function parseAmplifyBranch(value: unknown, index: number): AmplifyBranchConfig {
+	const key = `AMPLIFY_BRANCHES[${index}]`;
 	if (!value || typeof value !== "object" || Array.isArray(value)) {
-		return false;
+		throw new Error(`${key} must be an object, for example: ${AMPLIFY_BRANCHES_EXAMPLE}`);
 	}
 
-	for (const salesRep of REQUIRED_SALES_REP_EMAIL_KEYS) {
-		const email = Reflect.get(value, salesRep);
-		if (typeof email !== "string" || email.trim().length === 0) {
-			return false;
-		}
+	const branchName = Reflect.get(value, "branchName");
+	const subdomain = Reflect.get(value, "subdomain");
+	const environmentVariables = Reflect.get(value, "environmentVariables") ?? {};
+
+	if (typeof branchName !== "string" || branchName.trim().length === 0) {
+		throw new Error(`${key}.branchName is required.`);
 	}
-	return true;
+	if (typeof subdomain === "string" && STAGE_SUBDOMAINS.includes(subdomain)) {
+		throw new Error(
+			`${key}.subdomain ${subdomain} is taken by the ${subdomain} stage, which is served from ` +
+				`${subdomain}.DOMAIN_NAME. Use another subdomain, e.g. the branch name.`
+		);
+	}
+	if (
+		subdomain !== undefined &&
+		(typeof subdomain !== "string" ||
+			!/^[a-z0-9]([a-z0-9-]*[a-z0-9])?$/.test(subdomain) ||
+			RESERVED_SUBDOMAINS.includes(subdomain))
+	) {
+		throw new Error(
+			`${key}.subdomain must be a DNS label other than ${RESERVED_SUBDOMAINS.join(", ")}.`
+		);
+	}
+	if (
+		typeof environmentVariables !== "object" ||
+		Array.isArray(environmentVariables) ||
+		!Object.values(environmentVariables).every((variable) => typeof variable === "string")
+	) {
+		throw new Error(`${key}.environmentVariables must map names to string values.`);
+	}
+
+	return { branchName: branchName.trim(), subdomain, environmentVariables };
 }
 
-function parseSalesRepEmailMap(value: string): Record<"Judith" | "Sanjay" | "Ajay", string> {
-	let parsed: unknown;
+function parseAmplifyBranches(productionBranch: string): AmplifyBranchConfig[] {
+	const value = process.env.AMPLIFY_BRANCHES;
+	if (!value) {
+		return [];
+	}
 
+	let parsed: unknown;
 	try {
 		parsed = JSON.parse(value);
 	} catch {
 		throw new Error(
-			"Invalid SALES_REP_EMAIL_MAP value. Expected valid JSON, for example: " +
-				'{"Judith":"judy.asdistributors@gmail.com","Sanjay":"asdistributors209@gmail.com","Ajay":"aandsdistributors@att.net"}'
+			`AMPLIFY_BRANCHES must be a JSON array, for example: ${AMPLIFY_BRANCHES_EXAMPLE}`
+		);
+	}
+	if (!Array.isArray(parsed)) {
+		throw new Error(
+			`AMPLIFY_BRANCHES must be a JSON array, for example: ${AMPLIFY_BRANCHES_EXAMPLE}`
 		);
 	}
 
-	if (!isSalesRepEmailMap(parsed)) {
-		throw new Error("Invalid SALES_REP_EMAIL_MAP value. Expected a JSON object.");
+	const branches = parsed.map(parseAmplifyBranch);
+	const branchNames = [productionBranch, ...branches.map(({ branchName }) => branchName)];
+	const subdomains = branches.flatMap(({ subdomain }) => (subdomain ? [subdomain] : []));
+	if (new Set(branchNames).size !== branchNames.length) {
+		throw new Error("AMPLIFY_BRANCHES must not repeat a branch or include GITHUB_BRANCH.");
+	}
+	if (new Set(subdomains).size !== subdomains.length) {
+		throw new Error("AMPLIFY_BRANCHES must not give two branches the same subdomain.");
+	}
+	return branches;
+}
+
+/**
+ * Required as soon as anything besides the production branch is built, so a preview can
+ * neither call the live API nor be opened without credentials
+ */
+function parseAmplifyPreviewConfig(
+	branches: AmplifyBranchConfig[]
+): AmplifyPreviewConfig | undefined {
+	const pullRequestPreviews = process.env.AMPLIFY_PULL_REQUEST_PREVIEWS === "true";
+	if (!pullRequestPreviews && branches.length === 0) {
+		return undefined;
 	}
 
+	const quoteApiUrl = getRequiredEnv("AMPLIFY_PREVIEW_QUOTE_API_URL");
+	if (!URL.canParse(quoteApiUrl) || new URL(quoteApiUrl).protocol !== "https:") {
+		throw new Error("AMPLIFY_PREVIEW_QUOTE_API_URL must be an https:// URL.");
+	}
 	return {
-		// Order matters
-		Sanjay: parsed.Sanjay.trim(), // Email with CDK resource id at index 0
-		Judith: parsed.Judith.trim(), // Email with CDK resource id at index 1
-		Ajay: parsed.Ajay.trim(), // Email with CDK resource id at index 2
+		pullRequestPreviews,
+		quoteApiUrl,
+		basicAuthSecretName: getRequiredEnv("AMPLIFY_BASIC_AUTH_SECRET_NAME"),
 	};
 }
 
 function loadEnvConfig(): EnvConfig {
-	const saleRepEmailMap = parseSalesRepEmailMap(getRequiredEnv("SALE_REP_EMAIL_MAP"));
+	const githubBranch = getRequiredEnv("GITHUB_BRANCH");
+	const amplifyBranches = parseAmplifyBranches(githubBranch);
 
 	return {
+		STAGE: stage,
 		CDK_DEFAULT_ACCOUNT: getRequiredEnv("CDK_DEFAULT_ACCOUNT"),
 		CDK_DEFAULT_REGION: getRequiredEnv("CDK_DEFAULT_REGION"),
 		DOMAIN_NAME: getRequiredEnv("DOMAIN_NAME"),
-		SALE_REP_EMAIL_MAP: saleRepEmailMap,
+		SALES_REP_REGISTRY_PARAMETER:
+			process.env.SALES_REP_REGISTRY_PARAMETER || stageParameterName(stage, "sales-rep-registry"),
 		ALLOWED_ORIGINS: parseCommaSeparatedList(getRequiredEnv("ALLOWED_ORIGINS")),
-		GITHUB_TOKEN: getRequiredEnv("GITHUB_TOKEN"),
+		CAPTCHA: parseCaptchaConfig(),
+		CATALOG_URL: parseCatalogUrl(),
+		REP_EMAIL_SANDBOX: parseRepEmailSandbox(),
+		LEGACY_REP_EMAIL_IDENTITIES: parseLegacyRepEmailIdentities(),
+		EMAIL_PROCESSING: parseEmailProcessingConfig(),
+		LOG_PII_POLICY: parseLogPiiPolicy(),
+		QUOTE_EXPORT: parseQuoteExportConfig(),
+		ALARM_EMAILS: parseCommaSeparatedList(process.env.ALARM_EMAILS ?? ""),
+		CHAT_NOTIFICATIONS: parseChatNotificationsConfig(),
+		GITHUB_TOKEN_SECRET_NAME: getRequiredEnv("GITHUB_TOKEN_SECRET_NAME"),
 		GITHUB_OWNER: getRequiredEnv("GITHUB_OWNER"),
 		GITHUB_REPO: getRequiredEnv("GITHUB_REPO"),
-		GITHUB_BRANCH: getRequiredEnv("GITHUB_BRANCH"),
+		GITHUB_BRANCH: githubBranch,
+		AMPLIFY_BRANCHES: amplifyBranches,
+		AMPLIFY_PREVIEWS: parseAmplifyPreviewConfig(amplifyBranches),
+		LEGACY_REDIRECTS: loadLegacyRedirects(
+			path.resolve(__dirname, "..", process.env.LEGACY_REDIRECTS_FILE || "legacy-redirects.json")
+		),
 	};
 }
 
@@ -0,0 +1,413 @@
+import * as cdk from "aws-cdk-lib";
+import type * as apigateway from "aws-cdk-lib/aws-apigatewayv2";
+import * as cloudwatch from "aws-cdk-lib/aws-cloudwatch";
+import * as cloudwatchActions from "aws-cdk-lib/aws-cloudwatch-actions";
+import type * as lambda from "aws-cdk-lib/aws-lambda";
+import * as sns from "aws-cdk-lib/aws-sns";
+import * as snsSubscriptions from "aws-cdk-lib/aws-sns-subscriptions";
+import type * as sqs from "aws-cdk-lib/aws-sqs";
+import { Construct } from "constructs";
+import { QUOTE_METRICS } from "../lambda/metrics";
+import { type Stage, stageMetricsNamespace, stageResourceName } from "./stage";
+
+/**
+ * Alarm thresholds. Tune these here rather than in the alarm definitions.
+ */
+const LAMBDA_ERROR_RATE_PERCENT = 5;
+const API_CLIENT_ERRORS_PER_5_MINUTES = 50;
+const API_SERVER_ERRORS_PER_5_MINUTES = 5;
+const QUEUE_MAX_AGE_MINUTES = 15;
+
+interface QuotePipelineMonitoringProps {
+	stage: Stage;
+	httpApi: apigateway.HttpApi;
+	apiHandler: lambda.IFunction;
+	emailProcessor: lambda.IFunction;
+	quoteQueue: sqs.IQueue;
+	deadLetterQueue: sqs.IQueue;
+	sesEventsDeadLetterQueue: sqs.IQueue;
+	chatNotifierDeadLetterQueue?: sqs.IQueue;
+
+	/**
+	 * Addresses subscribed to the alarm topic. They must confirm the SNS subscription email.
+	 */
+	alarmEmails: string[];
+}
+
+/**
+ * Alarms and a CloudWatch dashboard for the quote pipeline: API, queue, email processor and DLQ
+ */
+export class QuotePipelineMonitoring extends Construct {
+	public readonly alarmTopic: sns.Topic;
+
+	constructor(scope: Construct, id: string, props: QuotePipelineMonitoringProps) {
+		super(scope, id);
+
+		const metricsNamespace = stageMetricsNamespace(props.stage);
+
+		this.alarmTopic = new sns.Topic(this, "AlarmTopic", {
+			topicName: stageResourceName(props.stage, "quote-alarms"),
+			displayName: "AS Distributors quote pipeline alarms",
+		});
+		for (const email of props.alarmEmails) {
+			this.alarmTopic.addSubscription(new snsSubscriptions.EmailSubscription(email));
+		}
+
+		const fiveMinutes = cdk.Duration.minutes(5);
+
+		const alarms = [
+			// Any message here is a quote request nobody was emailed about
+			props.deadLetterQueue
+				.metricApproximateNumberOfMessagesVisible({
+					period: cdk.Duration.minutes(1),
+					statistic: "Maximum",
+				})
+				.createAlarm(this, "DeadLetterQueueAlarm", {
+					alarmName: stageResourceName(props.stage, "quote-dlq-not-empty"),
+					alarmDescription:
+						"Quote requests failed and were moved to the DLQ. Inspect them with `npm run dlq -- list`.",
+					threshold: 0,
+					comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+					evaluationPeriods: 1,
+					treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+				}),
+
+			props.sesEventsDeadLetterQueue
+				.metricApproximateNumberOfMessagesVisible({
+					period: cdk.Duration.minutes(1),
+					statistic: "Maximum",
+				})
+				.createAlarm(this, "SesEventsDeadLetterQueueAlarm", {
+					alarmName: stageResourceName(props.stage, "ses-events-dlq-not-empty"),
+					alarmDescription:
+						"SES delivery events could not be recorded. Bounces in them did not update the suppression list.",
+					threshold: 0,
+					comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+					evaluationPeriods: 1,
+					treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+				}),
+
+			new cloudwatch.Metric({
+				namespace: metricsNamespace,
+				metricName: QUOTE_METRICS.repEmailBounced,
+				statistic: "Sum",
+				period: fiveMinutes,
+			}).createAlarm(this, "RepEmailBouncedAlarm", {
+				alarmName: stageResourceName(props.stage, "quote-rep-email-bounced"),
+				alarmDescription:
+					"A rep notification hard-bounced. Check the rep's addresses with `npm run sales-reps -- show`; the quote's emailEvents list the bounced recipients.",
+				threshold: 0,
+				comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+				evaluationPeriods: 1,
+				treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+			}),
+
+			new cloudwatch.Metric({
+				namespace: metricsNamespace,
+				metricName: QUOTE_METRICS.catalogUnavailable,
+				statistic: "Sum",
+				period: fiveMinutes,
+			}).createAlarm(this, "CatalogUnavailableAlarm", {
+				alarmName: stageResourceName(props.stage, "quote-catalog-unavailable"),
+				alarmDescription:
+					"The quote API could not load the product catalog from CATALOG_URL and is accepting quote items unchecked. Check that the website publishes a valid catalog.json.",
+				threshold: 0,
+				comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+				evaluationPeriods: 1,
+				treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+			}),
+
+			new cloudwatch.Metric({
+				namespace: metricsNamespace,
+				metricName: QUOTE_METRICS.quoteEventPublishFailed,
+				statistic: "Sum",
+				period: fiveMinutes,
+			}).createAlarm(this, "QuoteEventPublishFailedAlarm", {
+				alarmName: stageResourceName(props.stage, "quote-event-publish-failed"),
+				alarmDescription:
+					"The email processor could not publish QuoteRequested events, so chat and other integrations missed quotes. The reps were still emailed.",
+				threshold: 0,
+				comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+				evaluationPeriods: 1,
+				treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+			}),
+
+			// Failed records are reported back to SQS individually, so they do not count as
+			// Lambda errors
+			new cloudwatch.Metric({
+				namespace: metricsNamespace,
+				metricName: QUOTE_METRICS.recordFailed,
+				statistic: "Sum",
+				period: fiveMinutes,
+			}).createAlarm(this, "EmailProcessorRecordFailedAlarm", {
+				alarmName: stageResourceName(props.stage, "quote-email-processor-record-failures"),
+				alarmDescription:
+					"The email processor failed quote requests, e.g. because SES rejects sends. They will be retried, then moved to the DLQ.",
+				threshold: 0,
+				comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+				evaluationPeriods: 1,
+				treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+			}),
+
+			this.errorRateAlarm("EmailProcessorErrorRateAlarm", props.emailProcessor, {
+				alarmName: stageResourceName(props.stage, "quote-email-processor-errors"),
+				alarmDescription:
+					"Email processor invocations are failing as a whole, e.g. because the sales rep registry cannot be loaded. The batches will be retried, then moved to the DLQ.",
+			}),
+
+			this.errorRateAlarm("ApiHandlerErrorRateAlarm", props.apiHandler, {
+				alarmName: stageResourceName(props.stage, "quote-api-handler-errors"),
+				alarmDescription: "The quote API handler is failing.",
+			}),
+
+			// The email processor has reserved concurrency, capping its share of the SES send rate
+			props.emailProcessor
+				.metricThrottles({ period: fiveMinutes, statistic: "Sum" })
+				.createAlarm(this, "EmailProcessorThrottlesAlarm", {
+					alarmName: stageResourceName(props.stage, "quote-email-processor-throttles"),
+					alarmDescription:
+						"The email processor hit its reserved concurrency. Quotes are delayed until it catches up.",
+					threshold: 0,
+					comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+					evaluationPeriods: 1,
+					treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+				}),
+
+			props.apiHandler
+				.metricThrottles({ period: fiveMinutes, statistic: "Sum" })
+				.createAlarm(this, "ApiHandlerThrottlesAlarm", {
+					alarmName: stageResourceName(props.stage, "quote-api-handler-throttles"),
+					alarmDescription: "The quote API handler is being throttled. Submissions are failing.",
+					threshold: 0,
+					comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+					evaluationPeriods: 1,
+					treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+				}),
+
+			props.httpApi
+				.metricClientError({ period: fiveMinutes, statistic: "Sum" })
+				.createAlarm(this, "ApiClientErrorsAlarm", {
+					alarmName: stageResourceName(props.stage, "quote-api-4xx-spike"),
+					alarmDescription:
+						"Unusually many rejected quote submissions: a broken frontend release or a bot.",
+					threshold: API_CLIENT_ERRORS_PER_5_MINUTES,
+					comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+					evaluationPeriods: 1,
+					treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+				}),
+
+			props.httpApi
+				.metricServerError({ period: fiveMinutes, statistic: "Sum" })
+				.createAlarm(this, "ApiServerErrorsAlarm", {
+					alarmName: stageResourceName(props.stage, "quote-api-5xx-spike"),
+					alarmDescription:
+						"The quote API is returning server errors. Customers cannot submit quotes.",
+					threshold: API_SERVER_ERRORS_PER_5_MINUTES,
+					comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+					evaluationPeriods: 1,
+					treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+				}),
+
+			props.quoteQueue
+				.metricApproximateAgeOfOldestMessage({ period: fiveMinutes, statistic: "Maximum" })
+				.createAlarm(this, "QueueAgeAlarm", {
+					alarmName: stageResourceName(props.stage, "quote-queue-age"),
+					alarmDescription: "Quote requests are waiting in the queue instead of being emailed.",
+					threshold: QUEUE_MAX_AGE_MINUTES * 60,
+					comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+					evaluationPeriods: 1,
+					treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+				}),
+		];
+
+		if (props.chatNotifierDeadLetterQueue) {
+			alarms.push(
+				props.chatNotifierDeadLetterQueue
+					.metricApproximateNumberOfMessagesVisible({
+						period: cdk.Duration.minutes(1),
+						statistic: "Maximum",
+					})
+					.createAlarm(this, "ChatNotifierDeadLetterQueueAlarm", {
+						alarmName: stageResourceName(props.stage, "quote-chat-notifier-dlq-not-empty"),
+						alarmDescription:
+							"Quote requests could not be posted to the chat webhook. Check the webhook URL secret; the reps were still emailed.",
+						threshold: 0,
+						comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+						evaluationPeriods: 1,
+						treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+					})
+			);
+		}
+
+		const alarmAction = new cloudwatchActions.SnsAction(this.alarmTopic);
+		for (const alarm of alarms) {
+			alarm.addAlarmAction(alarmAction);
+			alarm.addOkAction(alarmAction);
+		}
+
+		this.createDashboard(props, alarms);
+	}
+
+	private errorRateAlarm(
+		id: string,
+		fn: lambda.IFunction,
+		options: { alarmName: string; alarmDescription: string }
+	): cloudwatch.Alarm {
+		const period = cdk.Duration.minutes(5);
+		const errorRate = new cloudwatch.MathExpression({
+			expression: "IF(invocations > 0, 100 * errors / invocations, 0)",
+			usingMetrics: {
+				errors: fn.metricErrors({ period, statistic: "Sum" }),
+				invocations: fn.metricInvocations({ period, statistic: "Sum" }),
+			},
+			label: "Error rate (%)",
+			period,
+		});
+
+		return errorRate.createAlarm(this, id, {
+			...options,
+			threshold: LAMBDA_ERROR_RATE_PERCENT,
+			comparisonOperator: cloudwatch.ComparisonOperator.GREATER_THAN_THRESHOLD,
+			evaluationPeriods: 1,
+			treatMissingData: cloudwatch.TreatMissingData.NOT_BREACHING,
+		});
+	}
+
+	private createDashboard(props: QuotePipelineMonitoringProps, alarms: cloudwatch.Alarm[]): void {
+		const metricsNamespace = stageMetricsNamespace(props.stage);
+		const oneDay = cdk.Duration.days(1);
+		const oneHour = cdk.Duration.hours(1);
+
+		const dashboard = new cloudwatch.Dashboard(this, "Dashboard", {
+			dashboardName: stageResourceName(props.stage, "quote-pipeline"),
+			defaultInterval: cdk.Duration.days(14),
+		});
+
+		dashboard.addWidgets(
+			new cloudwatch.AlarmStatusWidget({ title: "Alarms", alarms, width: 24, height: 3 })
+		);
+
+		dashboard.addWidgets(
+			new cloudwatch.GraphWidget({
+				title: "Submissions per day",
+				left: [
+					new cloudwatch.Metric({
+						namespace: metricsNamespace,
+						metricName: QUOTE_METRICS.accepted,
+						statistic: "Sum",
+						period: oneDay,
+						label: "Accepted",
+					}),
+					new cloudwatch.Metric({
+						namespace: metricsNamespace,
+						metricName: QUOTE_METRICS.duplicate,
+						statistic: "Sum",
+						period: oneDay,
+						label: "Flagged as duplicate",
+					}),
+				],
+				width: 12,
+			}),
+			new cloudwatch.GraphWidget({
+				title: "Rejected submissions by reason (per hour)",
+				left: [
+					new cloudwatch.MathExpression({
+						expression: `SEARCH('{${metricsNamespace},Reason} MetricName="${QUOTE_METRICS.rejected}"', 'Sum', 3600)`,
+						label: "",
+						period: oneHour,
+					}),
+				],
+				width: 12,
+			})
+		);
+
+		dashboard.addWidgets(
+			new cloudwatch.GraphWidget({
+				title: "SQS to rep email latency",
+				left: ["p50", "p90", "Maximum"].map(
+					(statistic) =>
+						new cloudwatch.Metric({
+							namespace: metricsNamespace,
+							metricName: QUOTE_METRICS.queueToEmailLatency,
+							statistic,
+							period: oneHour,
+							unit: cloudwatch.Unit.MILLISECONDS,
+							label: statistic,
+						})
+				),
+				width: 12,
+			}),
+			new cloudwatch.GraphWidget({
+				title: "Queue",
+				left: [
+					props.quoteQueue.metricApproximateNumberOfMessagesVisible({ label: "Waiting" }),
+					props.deadLetterQueue.metricApproximateNumberOfMessagesVisible({ label: "In DLQ" }),
+				],
+				right: [
+					props.quoteQueue.metricApproximateAgeOfOldestMessage({
+						label: "Oldest message age (s)",
+					}),
+				],
+				width: 12,
+			})
+		);
+
+		dashboard.addWidgets(
+			new cloudwatch.GraphWidget({
+				title: "Lambda errors and throttles",
+				left: [
+					props.apiHandler.metricErrors({ label: "API handler errors" }),
+					props.emailProcessor.metricErrors({ label: "Email processor errors" }),
+					new cloudwatch.Metric({
+						namespace: metricsNamespace,
+						metricName: QUOTE_METRICS.recordFailed,
+						statistic: "Sum",
+						label: "Failed quote requests",
+					}),
+				],
+				right: [
+					props.apiHandler.metricThrottles({ label: "API handler throttles" }),
+					props.emailProcessor.metricThrottles({ label: "Email processor throttles" }),
+				],
+				width: 12,
+			}),
+			new cloudwatch.GraphWidget({
+				title: "API responses",
+				left: [
+					props.httpApi.metricCount({ label: "Requests" }),
+					props.httpApi.metricClientError({ label: "4xx" }),
+					props.httpApi.metricServerError({ label: "5xx" }),
+				],
+				width: 12,
+			})
+		);
+
+		dashboard.addWidgets(
+			new cloudwatch.GraphWidget({
+				title: "Undeliverable email (per day)",
+				left: [
+					new cloudwatch.Metric({
+						namespace: metricsNamespace,
+						metricName: QUOTE_METRICS.repEmailBounced,
+						statistic: "Sum",
+						period: oneDay,
+						label: "Rep notification hard bounces",
+					}),
+					new cloudwatch.Metric({
+						namespace: metricsNamespace,
+						metricName: QUOTE_METRICS.customerEmailSuppressed,
+						statistic: "Sum",
+						period: oneDay,
+						label: "Acknowledgements skipped (suppressed)",
+					}),
+					new cloudwatch.MathExpression({
+						expression: `SEARCH('{${metricsNamespace},Email} MetricName="${QUOTE_METRICS.emailComplaint}"', 'Sum', 86400)`,
+						label: "Complaints",
+						period: oneDay,
+					}),
+				],
+				width: 12,
+			})
+		);
+	}
+}
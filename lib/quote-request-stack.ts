@@ -1,24 +1,104 @@
 import * as cdk from "aws-cdk-lib";
 import * as apigateway from "aws-cdk-lib/aws-apigatewayv2";
+import * as apigatewayAuthorizers from "aws-cdk-lib/aws-apigatewayv2-authorizers";
 import * as apigatewayIntegrations from "aws-cdk-lib/aws-apigatewayv2-integrations";
+import * as cognito from "aws-cdk-lib/aws-cognito";
 import * as sqs from "aws-cdk-lib/aws-sqs";
+import * as dynamodb from "aws-cdk-lib/aws-dynamodb";
+import * as events from "aws-cdk-lib/aws-events";
+import * as eventsTargets from "aws-cdk-lib/aws-events-targets";
 import * as iam from "aws-cdk-lib/aws-iam";
+import * as secretsmanager from "aws-cdk-lib/aws-secretsmanager";
 import * as ses from "aws-cdk-lib/aws-ses";
+import * as sns from "aws-cdk-lib/aws-sns";
+import * as snsSubscriptions from "aws-cdk-lib/aws-sns-subscriptions";
+import * as ssm from "aws-cdk-lib/aws-ssm";
 import * as lambdaEventSources from "aws-cdk-lib/aws-lambda-event-sources";
 import { NodejsFunction } from "aws-cdk-lib/aws-lambda-nodejs";
 import { Runtime } from "aws-cdk-lib/aws-lambda";
 import type { Construct } from "constructs";
-import type * as route53 from "aws-cdk-lib/aws-route53";
+import * as route53 from "aws-cdk-lib/aws-route53";
+import * as route53Targets from "aws-cdk-lib/aws-route53-targets";
+import type * as acm from "aws-cdk-lib/aws-certificatemanager";
 import * as path from "node:path";
+import type { ChatWebhookFormat } from "../lambda/chat-webhook";
+import type { QuoteExportFormatName } from "../lambda/quote-export";
+import { QUOTE_EVENT_SOURCE, QUOTE_REQUESTED } from "../lambda/quote-events";
+import { CORRELATION_ID_HEADER } from "../lambda/types";
+import { QuotePipelineMonitoring } from "./quote-pipeline-monitoring";
+import { type Stage, stageMetricsNamespace, stageResourceName } from "./stage";
 
 const LAMBDA_TIMEOUT_SECONDS = 30;
 const SQS_VISIBILITY_TIMEOUT_SECONDS = LAMBDA_TIMEOUT_SECONDS * 6;
+const EMAIL_PROCESSOR_CONCURRENCY = 3;
+
+/**
+ * Emails sent per quote request: the rep notification and the customer acknowledgement
+ */
+const EMAILS_PER_QUOTE = 2;
+
+/**
+ * Base path of the API on its custom domain, e.g. https://api.example.com/v1/quote. A breaking
+ * change gets a new mapping (v2) while the website moves over.
+ */
+const API_VERSION = "v1";
+
+export interface CaptchaConfig {
+	provider: "turnstile";
+
+	/**
+	 * Name of the Secrets Manager secret holding the provider's secret key as plain text
+	 */
+	secretName: string;
+}
+
+export interface EmailProcessingConfig {
+	/**
+	 * Maximum number of quote requests handed to one email processor invocation
+	 */
+	batchSize: number;
+
+	/**
+	 * How long SQS may wait to fill a batch before invoking the email processor
+	 */
+	maxBatchingWindowSeconds: number;
+
+	/**
+	 * The account's SES maximum send rate in emails per second (1 in the SES sandbox)
+	 */
+	sesMaxSendRate: number;
+}
+
+export interface QuoteExportConfig {
+	format: QuoteExportFormatName;
+
+	/**
+	 * Column mapping as field=header pairs, e.g. "itemNumber=ITEM_NO,quantity=QTY".
+	 * See DEFAULT_EXPORT_COLUMNS in lambda/quote-export.ts for the default.
+	 */
+	columns?: string;
+}
+
+export interface ChatNotificationsConfig {
+	format: ChatWebhookFormat;
+
+	/**
+	 * Name of the Secrets Manager secret holding the chat's incoming webhook URL as plain text
+	 */
+	webhookSecretName: string;
+}
 
 interface QuoteRequestStackProps extends cdk.StackProps {
 	/**
-	 * Map of sales reps to their configured email addresses.
+	 * The deployment this stack belongs to. Prefixes resource names outside production.
 	 */
-	saleRepEmailMap: Record<"Judith" | "Sanjay" | "Ajay", string>;
+	stage: Stage;
+
+	/**
+	 * Name of the SSM parameter holding the sales rep registry: reps, their email addresses and
+	 * routing rules. Maintained with `npm run sales-reps`; the Lambdas read it at runtime.
+	 */
+	salesRepRegistryParameterName: string;
 
 	/**
 	 * The Route 53 hosted zone for the domain.
@@ -26,89 +106,417 @@ interface QuoteRequestStackProps extends cdk.StackProps {
 	 */
 	hostedZone: route53.IHostedZone;
 
+	/**
+	 * The stage's domain, e.g. staging.example.com. Quote emails are sent from noreply@ this domain
+	 * and the API is served at api.<domainName>.
+	 */
+	domainName: string;
+
+	/**
+	 * DomainStack's certificate for the stage's domain and its subdomains
+	 */
+	certificate: acm.ICertificate;
+
+	/**
+	 * Inbox that receives every rep notification instead of the reps, so a non-production stage
+	 * never emails real reps. Only this address is verified in SES for the stage.
+	 */
+	repEmailSandbox?: string;
+
+	/**
+	 * Rep addresses verified in SES by the stack before the sales rep registry existed, in their
+	 * old order. Kept as retained identities so the deploy that drops them from the stack does not
+	 * delete them. Production only.
+	 */
+	legacyRepEmailIdentities: string[];
+
 	/**
 	 * Allowed origins for CORS (e.g., your frontend domain)
 	 */
 	allowedOrigins: string[];
+
+	/**
+	 * CAPTCHA verification of quote requests. Disabled when undefined.
+	 */
+	captcha?: CaptchaConfig;
+
+	/**
+	 * URL of the product catalog the website publishes, e.g. https://example.com/catalog.json.
+	 * Quote items are checked against it when set.
+	 */
+	catalogUrl?: string;
+
+	/**
+	 * Batching of the quote request queue and SES pacing in the email processor
+	 */
+	emailProcessing: EmailProcessingConfig;
+
+	/**
+	 * Overrides of the default log PII policy, e.g. "email=redact,userAgent=plain".
+	 * See DEFAULT_PII_POLICY in lambda/logger.ts.
+	 */
+	logPiiPolicy?: string;
+
+	/**
+	 * Machine-readable export of the quote items attached to every rep notification
+	 */
+	quoteExport: QuoteExportConfig;
+
+	/**
+	 * Email addresses notified when a quote pipeline alarm changes state
+	 */
+	alarmEmails: string[];
+
+	/**
+	 * Posts every quote request to a Slack or Teams channel. Disabled when undefined.
+	 */
+	chatNotifications?: ChatNotificationsConfig;
 }
 
 export class QuoteRequestStack extends cdk.Stack {
+	/**
+	 * The API's stable base URL on the custom domain, e.g. https://api.example.com/v1/
+	 */
 	public readonly apiUrl: string;
 
 	constructor(scope: Construct, id: string, props: QuoteRequestStackProps) {
 		super(scope, id, props);
 
+		// Every email processor instance gets an equal share of the account's SES send rate,
+		// and enough time to send a full batch at that rate
+		const { batchSize, maxBatchingWindowSeconds, sesMaxSendRate } = props.emailProcessing;
+		const sesSendRatePerInstance = sesMaxSendRate / EMAIL_PROCESSOR_CONCURRENCY;
+		const emailProcessorTimeoutSeconds =
+			LAMBDA_TIMEOUT_SECONDS + Math.ceil((batchSize * EMAILS_PER_QUOTE) / sesSendRatePerInstance);
+		if (emailProcessorTimeoutSeconds > 900) {
+			throw new Error(
+				`A batch of ${batchSize} quote requests takes too long to send at ${sesMaxSendRate} emails/second. Lower the batch size.`
+			);
+		}
+
+		const resourceName = (name: string) => stageResourceName(props.stage, name);
+
+		// Keys the hashes of personal data in the logs. The logger hashes synchronously, so the key
+		// is resolved into the Lambdas' environment at deploy time rather than read at runtime.
+		const logHashKeySecret = new secretsmanager.Secret(this, "LogHashKeySecret", {
+			secretName: resourceName("log-hash-key"),
+			description: "Keys the hashes of personal data in the Lambda logs",
+			generateSecretString: { passwordLength: 64, excludePunctuation: true },
+		});
+
+		// Shared by the Lambdas that log and publish metrics
+		const loggingEnvironment: Record<string, string> = {
+			METRICS_NAMESPACE: stageMetricsNamespace(props.stage),
+			LOG_HASH_KEY: logHashKeySecret.secretValue.unsafeUnwrap(),
+			...(props.logPiiPolicy ? { LOG_PII_POLICY: props.logPiiPolicy } : {}),
+		};
+
+		// Dead letter queue for failed messages. The email processor also sends
+		// schema-invalid messages here directly, with a failureReason attribute.
+		const deadLetterQueue = new sqs.Queue(this, "QuoteRequestDLQ", {
+			queueName: resourceName("quote-requests-dlq"),
+			retentionPeriod: cdk.Duration.days(14),
+		});
+
 		// SQS Queue for quote requests
 		// Using a standard queue with visibility timeout to handle retries
 		const quoteQueue = new sqs.Queue(this, "QuoteRequestQueue", {
-			queueName: "as-distributors-quote-requests",
-			visibilityTimeout: cdk.Duration.seconds(SQS_VISIBILITY_TIMEOUT_SECONDS), // 6x Lambda timeout (30s * 6)      retentionPeriod: cdk.Duration.days(7),
-			// Dead letter queue for failed messages
+			queueName: resourceName("quote-requests"),
+			// AWS recommends 6x the Lambda timeout plus the batching window
+			visibilityTimeout: cdk.Duration.seconds(
+				emailProcessorTimeoutSeconds * 6 + maxBatchingWindowSeconds
+			),
+			// retentionPeriod: cdk.Duration.days(7),
 			deadLetterQueue: {
-				queue: new sqs.Queue(this, "QuoteRequestDLQ", {
-					queueName: "as-distributors-quote-requests-dlq",
-					retentionPeriod: cdk.Duration.days(14),
-				}),
+				queue: deadLetterQueue,
 				maxReceiveCount: 3,
 			},
 		});
 
+		// DynamoDB table keeping a record of every submitted quote, keyed by its reference ID.
+		// Also holds the per-year counter items used to generate those IDs.
+		const quotesTable = new dynamodb.Table(this, "QuotesTable", {
+			tableName: resourceName("quotes"),
+			partitionKey: { name: "quoteId", type: dynamodb.AttributeType.STRING },
+			billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+			pointInTimeRecoverySpecification: { pointInTimeRecoveryEnabled: true },
+			removalPolicy: cdk.RemovalPolicy.RETAIN,
+		});
+
+		// Every quote newest first, for the admin API. Status, rep and company filters are applied
+		// while reading this index: the table is small, and CloudFormation can only add one index
+		// to an existing table per deployment.
+		quotesTable.addGlobalSecondaryIndex({
+			indexName: "byCreatedAt",
+			partitionKey: { name: "recordType", type: dynamodb.AttributeType.STRING },
+			sortKey: { name: "createdAt", type: dynamodb.AttributeType.STRING },
+		});
+
+		// Sliding window rate limit counters for the quote API. Items expire through TTL,
+		// so the table only ever holds the last couple of windows.
+		const rateLimitTable = new dynamodb.Table(this, "RateLimitTable", {
+			tableName: resourceName("rate-limits"),
+			partitionKey: { name: "rateLimitKey", type: dynamodb.AttributeType.STRING },
+			billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+			timeToLiveAttribute: "expiresAt",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+		});
+
+		// Idempotency-Key records and near-duplicate fingerprints of recent submissions.
+		// Items expire through TTL once their window has passed.
+		const submissionsTable = new dynamodb.Table(this, "SubmissionsTable", {
+			tableName: resourceName("submissions"),
+			partitionKey: { name: "submissionKey", type: dynamodb.AttributeType.STRING },
+			billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+			timeToLiveAttribute: "expiresAt",
+			removalPolicy: cdk.RemovalPolicy.DESTROY,
+		});
+
+		// Customer addresses that hard-bounced or marked a quote email as spam.
+		// Kept when the stack is deleted so suppressed customers are not emailed again.
+		const emailSuppressionsTable = new dynamodb.Table(this, "EmailSuppressionsTable", {
+			tableName: resourceName("email-suppressions"),
+			partitionKey: { name: "email", type: dynamodb.AttributeType.STRING },
+			billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+			removalPolicy: cdk.RemovalPolicy.RETAIN,
+		});
+
+		// An SES identity exists once per domain, so other stages send from their own subdomain.
+		// Its DKIM records go in the root domain's hosted zone.
 		const senderEmailIdentity = new ses.EmailIdentity(this, "SesDomainIdentity", {
-			identity: ses.Identity.publicHostedZone(props.hostedZone),
+			identity:
+				props.domainName === props.hostedZone.zoneName
+					? ses.Identity.publicHostedZone(props.hostedZone)
+					: ses.Identity.domain(props.domainName),
+		});
+		if (props.domainName !== props.hostedZone.zoneName) {
+			for (const [index, dkimRecord] of senderEmailIdentity.dkimRecords.entries()) {
+				// The token names are already fully qualified, so a CnameRecord would append the zone again
+				new route53.CfnRecordSet(this, `SesDkimRecord${index + 1}`, {
+					hostedZoneId: props.hostedZone.hostedZoneId,
+					name: dkimRecord.name,
+					type: "CNAME",
+					resourceRecords: [dkimRecord.value],
+					ttl: "1800",
+				});
+			}
+		}
+		const senderEmail = `noreply@${props.domainName}`;
+
+		// Delivery, bounce and complaint events for quote emails go SES -> SNS -> SQS -> SES event
+		// handler, which records them on the quote. The queue keeps events while the handler fails.
+		const emailConfigurationSet = new ses.ConfigurationSet(this, "QuoteEmailConfigurationSet", {
+			configurationSetName: resourceName("quote-emails"),
+		});
+		const sesEventsTopic = new sns.Topic(this, "SesEventsTopic", {
+			topicName: resourceName("ses-events"),
+		});
+		emailConfigurationSet.addEventDestination("SesEventsDestination", {
+			destination: ses.EventDestination.snsTopic(sesEventsTopic),
+			events: [
+				ses.EmailSendingEvent.DELIVERY,
+				ses.EmailSendingEvent.BOUNCE,
+				ses.EmailSendingEvent.COMPLAINT,
+			],
 		});
-		const senderEmail = `noreply@${props.hostedZone.zoneName}`;
-		const saleRepEmails = [...new Set(Object.values(props.saleRepEmailMap))];
 
-		const receipientEmailIdentities = saleRepEmails.map(
-			(salesRepEmail, index) =>
-				new ses.EmailIdentity(this, `ReceipientEmailIdentity-${index}`, {
-					identity: ses.Identity.email(salesRepEmail),
-				})
+		const sesEventsDeadLetterQueue = new sqs.Queue(this, "SesEventsDLQ", {
+			queueName: resourceName("ses-events-dlq"),
+			retentionPeriod: cdk.Duration.days(14),
+		});
+		const sesEventsQueue = new sqs.Queue(this, "SesEventsQueue", {
+			queueName: resourceName("ses-events"),
+			visibilityTimeout: cdk.Duration.seconds(SQS_VISIBILITY_TIMEOUT_SECONDS),
+			deadLetterQueue: {
+				queue: sesEventsDeadLetterQueue,
+				maxReceiveCount: 3,
+			},
+		});
+		sesEventsTopic.addSubscription(
+			new snsSubscriptions.SqsSubscription(sesEventsQueue, { rawMessageDelivery: true })
 		);
 
+		// Recipient identities only matter while the account is in the SES sandbox. Rep addresses
+		// change without a deploy, so `npm run sales-reps -- push --verify-emails` verifies those.
+		// The identities of the old rep email map keep their logical IDs. Retained, they stay
+		// verified once SALE_REP_EMAIL_MAP is dropped and a later deploy removes them from the stack.
+		props.legacyRepEmailIdentities.forEach((email, index) => {
+			new ses.EmailIdentity(this, `ReceipientEmailIdentity-${index}`, {
+				identity: ses.Identity.email(email),
+			}).applyRemovalPolicy(cdk.RemovalPolicy.RETAIN);
+		});
+		if (props.repEmailSandbox) {
+			new ses.EmailIdentity(this, "RepEmailSandboxIdentity", {
+				identity: ses.Identity.email(props.repEmailSandbox),
+			});
+		}
+
+		// Created outside the stack so rep changes do not need a deploy
+		const salesRepRegistryParameter = ssm.StringParameter.fromStringParameterName(
+			this,
+			"SalesRepRegistryParameter",
+			props.salesRepRegistryParameterName
+		);
+
+		// Signs the tokens that enforce a minimum quote form fill time. Only the API handler reads it.
+		const formTokenSecret = new secretsmanager.Secret(this, "FormTokenSecret", {
+			secretName: resourceName("form-token-secret"),
+			description: "Signs the quote form tokens that enforce a minimum form fill time",
+			generateSecretString: { passwordLength: 64, excludePunctuation: true },
+		});
+
+		const captchaSecret =
+			props.captcha &&
+			secretsmanager.Secret.fromSecretNameV2(this, "CaptchaSecret", props.captcha.secretName);
+
+		// Domain events of the quote pipeline. Integrations subscribe with their own rules, and the
+		// archive lets a new one replay past quotes.
+		const quoteEventBus = new events.EventBus(this, "QuoteEventBus", {
+			eventBusName: resourceName("quote-events"),
+		});
+		quoteEventBus.archive("QuoteEventArchive", {
+			archiveName: resourceName("quote-events"),
+			description: "Quote pipeline events, for replaying to new integrations",
+			eventPattern: { source: [QUOTE_EVENT_SOURCE] },
+			retention: cdk.Duration.days(365),
+		});
+
 		// Lambda function to process SQS messages and send emails
 		// Using NodejsFunction to automatically bundle dependencies
 		const emailProcessorLambda = new NodejsFunction(this, "EmailProcessorLambda", {
-			functionName: "as-distributors-quote-email-processor",
+			functionName: resourceName("quote-email-processor"),
 			runtime: Runtime.NODEJS_LATEST,
 			entry: path.join(__dirname, "../lambda/email-processor.ts"),
 			handler: "handler",
-			timeout: cdk.Duration.seconds(LAMBDA_TIMEOUT_SECONDS),
+			timeout: cdk.Duration.seconds(emailProcessorTimeoutSeconds),
 			memorySize: 256,
 			environment: {
 				SENDER_EMAIL: senderEmail,
-				SALE_REP_EMAIL_MAP: JSON.stringify(props.saleRepEmailMap),
+				SES_CONFIGURATION_SET_NAME: emailConfigurationSet.configurationSetName,
+				SALES_REP_REGISTRY_PARAMETER: salesRepRegistryParameter.parameterName,
+				DEAD_LETTER_QUEUE_URL: deadLetterQueue.queueUrl,
+				EVENT_BUS_NAME: quoteEventBus.eventBusName,
+				QUOTES_TABLE_NAME: quotesTable.tableName,
+				EMAIL_SUPPRESSIONS_TABLE_NAME: emailSuppressionsTable.tableName,
+				SES_SEND_RATE_PER_INSTANCE: String(sesSendRatePerInstance),
+				QUOTE_EXPORT_FORMAT: props.quoteExport.format,
+				...(props.quoteExport.columns ? { QUOTE_EXPORT_COLUMNS: props.quoteExport.columns } : {}),
+				...(props.repEmailSandbox ? { REP_EMAIL_SANDBOX: props.repEmailSandbox } : {}),
+				...loggingEnvironment,
 			},
-			reservedConcurrentExecutions: 3,
+			reservedConcurrentExecutions: EMAIL_PROCESSOR_CONCURRENCY,
 			bundling: {
 				minify: true,
 				sourceMap: true,
 			},
 		});
 
-		const receipientEmailIdentitieArns = receipientEmailIdentities.map(
-			(emailIdentity) => emailIdentity.emailIdentityArn
-		);
-
-		// Grant SES send email permissions to the email processor
+		// Grant SES send email permissions to the email processor.
+		// Recipients are not restricted so customers can receive their acknowledgement email;
+		// while the account is in the SES sandbox, only verified identities can receive mail: the
+		// sandbox inbox and the rep addresses verified by `npm run sales-reps -- push --verify-emails`.
 		emailProcessorLambda.addToRolePolicy(
 			new iam.PolicyStatement({
 				actions: ["ses:SendEmail", "ses:SendRawEmail"],
-				resources: [senderEmailIdentity.emailIdentityArn, ...receipientEmailIdentitieArns],
+				resources: [
+					senderEmailIdentity.emailIdentityArn,
+					this.formatArn({ service: "ses", resource: "identity", resourceName: "*" }),
+					this.formatArn({
+						service: "ses",
+						resource: "configuration-set",
+						resourceName: emailConfigurationSet.configurationSetName,
+					}),
+				],
+				conditions: {
+					StringEquals: { "ses:FromAddress": senderEmail },
+				},
 			})
 		);
 
-		// Add SQS as event source for the email processor
-		// batchSize: 1 means each Lambda invocation processes one message
+		deadLetterQueue.grantSendMessages(emailProcessorLambda);
+
+		// Grant the email processor permission to record which emails were sent for a quote
+		quotesTable.grantReadWriteData(emailProcessorLambda);
+		emailSuppressionsTable.grantReadData(emailProcessorLambda);
+		salesRepRegistryParameter.grantRead(emailProcessorLambda);
+		quoteEventBus.grantPutEventsTo(emailProcessorLambda);
+
+		// Add SQS as event source for the email processor.
+		// The processor reports failed records individually, so only those are retried.
 		emailProcessorLambda.addEventSource(
 			new lambdaEventSources.SqsEventSource(quoteQueue, {
+				batchSize,
+				maxBatchingWindow: cdk.Duration.seconds(maxBatchingWindowSeconds),
+				reportBatchItemFailures: true,
+			})
+		);
+
+		// First subscriber of the event bus: posts each quote request to the sales team's chat
+		const chatNotifier =
+			props.chatNotifications &&
+			this.createChatNotifier(
+				props.chatNotifications,
+				quoteEventBus,
+				resourceName,
+				loggingEnvironment
+			);
+
+		// Records SES delivery, bounce and complaint events on quotes and maintains the suppression list
+		const sesEventHandlerLambda = new NodejsFunction(this, "SesEventHandlerLambda", {
+			functionName: resourceName("ses-event-handler"),
+			runtime: Runtime.NODEJS_LATEST,
+			entry: path.join(__dirname, "../lambda/ses-event-handler.ts"),
+			handler: "handler",
+			timeout: cdk.Duration.seconds(LAMBDA_TIMEOUT_SECONDS),
+			memorySize: 256,
+			environment: {
+				QUOTES_TABLE_NAME: quotesTable.tableName,
+				EMAIL_SUPPRESSIONS_TABLE_NAME: emailSuppressionsTable.tableName,
+				...loggingEnvironment,
+			},
+			bundling: {
+				minify: true,
+				sourceMap: true,
+			},
+		});
+
+		quotesTable.grantWriteData(sesEventHandlerLambda);
+		emailSuppressionsTable.grantWriteData(sesEventHandlerLambda);
+
+		sesEventHandlerLambda.addEventSource(
+			new lambdaEventSources.SqsEventSource(sesEventsQueue, {
 				batchSize: 1,
 			})
 		);
 
+		// Operator Lambda behind `npm run dlq`: lists the DLQ and redrives messages to the quote queue.
+		// Only invoked directly by operators, so it has no trigger.
+		const dlqAdminLambda = new NodejsFunction(this, "DlqAdminLambda", {
+			functionName: resourceName("dlq-admin"),
+			runtime: Runtime.NODEJS_LATEST,
+			entry: path.join(__dirname, "../lambda/dlq-admin.ts"),
+			handler: "handler",
+			timeout: cdk.Duration.seconds(LAMBDA_TIMEOUT_SECONDS),
+			memorySize: 256,
+			environment: {
+				QUEUE_URL: quoteQueue.queueUrl,
+				DEAD_LETTER_QUEUE_URL: deadLetterQueue.queueUrl,
+				QUOTES_TABLE_NAME: quotesTable.tableName,
+				...loggingEnvironment,
+			},
+			bundling: {
+				minify: true,
+				sourceMap: true,
+			},
+		});
+
+		deadLetterQueue.grantConsumeMessages(dlqAdminLambda);
+		quoteQueue.grantSendMessages(dlqAdminLambda);
+		quotesTable.grantReadData(dlqAdminLambda);
+
 		// Lambda function to receive API requests and queue them
 		const apiHandlerLambda = new NodejsFunction(this, "ApiHandlerLambda", {
-			functionName: "as-distributors-quote-api-handler",
+			functionName: resourceName("quote-api-handler"),
 			runtime: Runtime.NODEJS_LATEST,
 			entry: path.join(__dirname, "../lambda/api-handler.ts"),
 			handler: "handler",
@@ -116,6 +524,17 @@ export class QuoteRequestStack extends cdk.Stack {
 			memorySize: 256,
 			environment: {
 				QUEUE_URL: quoteQueue.queueUrl,
+				QUOTES_TABLE_NAME: quotesTable.tableName,
+				RATE_LIMIT_TABLE_NAME: rateLimitTable.tableName,
+				SUBMISSIONS_TABLE_NAME: submissionsTable.tableName,
+				SALES_REP_REGISTRY_PARAMETER: salesRepRegistryParameter.parameterName,
+				FORM_TOKEN_SECRET_ID: formTokenSecret.secretArn,
+				...(props.catalogUrl && { CATALOG_URL: props.catalogUrl }),
+				...loggingEnvironment,
+				...(props.captcha && {
+					CAPTCHA_PROVIDER: props.captcha.provider,
+					CAPTCHA_SECRET_ID: props.captcha.secretName,
+				}),
 			},
 			bundling: {
 				minify: true,
@@ -126,26 +545,113 @@ export class QuoteRequestStack extends cdk.Stack {
 		// Grant the API handler permission to send messages to SQS
 		quoteQueue.grantSendMessages(apiHandlerLambda);
 
+		// Grant the API handler permission to generate quote IDs and store quotes
+		quotesTable.grantReadWriteData(apiHandlerLambda);
+		rateLimitTable.grantReadWriteData(apiHandlerLambda);
+		submissionsTable.grantReadWriteData(apiHandlerLambda);
+		salesRepRegistryParameter.grantRead(apiHandlerLambda);
+		formTokenSecret.grantRead(apiHandlerLambda);
+		captchaSecret?.grantRead(apiHandlerLambda);
+
+		// Sales reps sign in to the admin API with this user pool. Accounts are created by an
+		// administrator; reps cannot sign themselves up.
+		const repUserPool = new cognito.UserPool(this, "RepUserPool", {
+			userPoolName: resourceName("reps"),
+			selfSignUpEnabled: false,
+			signInAliases: { email: true },
+			autoVerify: { email: true },
+			standardAttributes: { email: { required: true, mutable: true } },
+			passwordPolicy: { minLength: 12 },
+			accountRecovery: cognito.AccountRecovery.EMAIL_ONLY,
+			removalPolicy: cdk.RemovalPolicy.RETAIN,
+		});
+		const repUserPoolClient = repUserPool.addClient("AdminClient", {
+			userPoolClientName: resourceName("admin"),
+			authFlows: { userSrp: true },
+			generateSecret: false,
+		});
+
+		// Lists, searches and updates stored quotes for signed-in reps
+		const adminApiLambda = new NodejsFunction(this, "AdminApiLambda", {
+			functionName: resourceName("quote-admin-api"),
+			runtime: Runtime.NODEJS_LATEST,
+			entry: path.join(__dirname, "../lambda/admin-api.ts"),
+			handler: "handler",
+			timeout: cdk.Duration.seconds(LAMBDA_TIMEOUT_SECONDS),
+			memorySize: 256,
+			environment: {
+				QUOTES_TABLE_NAME: quotesTable.tableName,
+				SALES_REP_REGISTRY_PARAMETER: salesRepRegistryParameter.parameterName,
+				...loggingEnvironment,
+			},
+			bundling: {
+				minify: true,
+				sourceMap: true,
+			},
+		});
+
+		quotesTable.grantReadWriteData(adminApiLambda);
+		salesRepRegistryParameter.grantRead(adminApiLambda);
+
 		// HTTP API Gateway (cheaper than REST API)
 		const httpApi = new apigateway.HttpApi(this, "QuoteRequestApi", {
-			apiName: "as-distributors-quote-api",
+			apiName: resourceName("quote-api"),
 			description: "API for submitting quote requests",
 			corsPreflight: {
 				allowOrigins: props.allowedOrigins,
-				allowMethods: [apigateway.CorsHttpMethod.POST],
-				allowHeaders: ["Content-Type"],
+				allowMethods: [
+					apigateway.CorsHttpMethod.GET,
+					apigateway.CorsHttpMethod.POST,
+					apigateway.CorsHttpMethod.PATCH,
+				],
+				allowHeaders: ["Content-Type", "Idempotency-Key", "Authorization"],
+				exposeHeaders: [CORRELATION_ID_HEADER],
 				maxAge: cdk.Duration.days(1),
 			},
 		});
 
+		const quoteApiIntegration = new apigatewayIntegrations.HttpLambdaIntegration(
+			"QuoteApiIntegration",
+			apiHandlerLambda
+		);
+
 		// Add POST /quote route with Lambda integration
 		httpApi.addRoutes({
 			path: "/quote",
 			methods: [apigateway.HttpMethod.POST],
-			integration: new apigatewayIntegrations.HttpLambdaIntegration(
-				"QuoteApiIntegration",
-				apiHandlerLambda
-			),
+			integration: quoteApiIntegration,
+		});
+
+		// The quote form fetches a signed token when it loads and sends it back with the quote
+		httpApi.addRoutes({
+			path: "/quote/form-token",
+			methods: [apigateway.HttpMethod.GET],
+			integration: quoteApiIntegration,
+		});
+
+		// Admin routes only accept tokens issued by the rep user pool for the admin client
+		const repAuthorizer = new apigatewayAuthorizers.HttpUserPoolAuthorizer(
+			"RepAuthorizer",
+			repUserPool,
+			{ userPoolClients: [repUserPoolClient] }
+		);
+		const adminApiIntegration = new apigatewayIntegrations.HttpLambdaIntegration(
+			"AdminApiIntegration",
+			adminApiLambda
+		);
+
+		httpApi.addRoutes({
+			path: "/admin/quotes",
+			methods: [apigateway.HttpMethod.GET],
+			integration: adminApiIntegration,
+			authorizer: repAuthorizer,
+		});
+
+		httpApi.addRoutes({
+			path: "/admin/quotes/{id}",
+			methods: [apigateway.HttpMethod.GET, apigateway.HttpMethod.PATCH],
+			integration: adminApiIntegration,
+			authorizer: repAuthorizer,
 		});
 
 		// Add throttling via a stage (HTTP API default stage)
@@ -156,16 +662,131 @@ export class QuoteRequestStack extends cdk.Stack {
 			ThrottlingRateLimit: 25, // Requests per second
 		});
 
-		if (!httpApi.url) {
-			throw new Error("API Gateway URL could not be retrieved");
-		}
+		// Serve the API at api.<domain>/v1 so the website does not depend on the execute-api URL
+		const apiHostName = `api.${props.domainName}`;
+		const apiDomainName = new apigateway.DomainName(this, "ApiDomainName", {
+			domainName: apiHostName,
+			certificate: props.certificate,
+		});
+		new apigateway.ApiMapping(this, "ApiMapping", {
+			api: httpApi,
+			domainName: apiDomainName,
+			apiMappingKey: API_VERSION,
+		});
+		new route53.ARecord(this, "ApiAliasRecord", {
+			zone: props.hostedZone,
+			recordName: apiHostName,
+			target: route53.RecordTarget.fromAlias(
+				new route53Targets.ApiGatewayv2DomainProperties(
+					apiDomainName.regionalDomainName,
+					apiDomainName.regionalHostedZoneId
+				)
+			),
+		});
 
-		this.apiUrl = httpApi.url;
+		this.apiUrl = `https://${apiHostName}/${API_VERSION}/`;
+
+		new QuotePipelineMonitoring(this, "Monitoring", {
+			stage: props.stage,
+			httpApi,
+			apiHandler: apiHandlerLambda,
+			emailProcessor: emailProcessorLambda,
+			quoteQueue,
+			deadLetterQueue,
+			sesEventsDeadLetterQueue,
+			chatNotifierDeadLetterQueue: chatNotifier?.deadLetterQueue,
+			alarmEmails: props.alarmEmails,
+		});
 
 		// Outputs
 		new cdk.CfnOutput(this, "ApiEndpoint", {
-			value: `${httpApi.url}quote`,
+			value: `${this.apiUrl}quote`,
 			description: "Quote Request API endpoint",
 		});
+
+		new cdk.CfnOutput(this, "DlqAdminFunctionName", {
+			value: dlqAdminLambda.functionName,
+			description: "Lambda behind `npm run dlq` for inspecting and redriving failed quote requests",
+		});
+
+		new cdk.CfnOutput(this, "AdminApiEndpoint", {
+			value: `${this.apiUrl}admin/quotes`,
+			description: "Admin API for listing and updating quotes",
+		});
+
+		new cdk.CfnOutput(this, "RepUserPoolId", {
+			value: repUserPool.userPoolId,
+			description: "Cognito user pool reps sign in to the admin API with",
+		});
+
+		new cdk.CfnOutput(this, "RepUserPoolClientId", {
+			value: repUserPoolClient.userPoolClientId,
+			description: "Cognito app client for the admin API",
+		});
+
+		new cdk.CfnOutput(this, "QuotesTableName", {
+			value: quotesTable.tableName,
+			description: "DynamoDB table storing submitted quote requests",
+		});
+
+		new cdk.CfnOutput(this, "QuoteEventBusName", {
+			value: quoteEventBus.eventBusName,
+			description: `EventBridge bus receiving ${QUOTE_REQUESTED} events from source ${QUOTE_EVENT_SOURCE}`,
+		});
+	}
+
+	private createChatNotifier(
+		config: ChatNotificationsConfig,
+		eventBus: events.IEventBus,
+		resourceName: (name: string) => string,
+		loggingEnvironment: Record<string, string>
+	): { deadLetterQueue: sqs.IQueue } {
+		const webhookSecret = secretsmanager.Secret.fromSecretNameV2(
+			this,
+			"ChatWebhookSecret",
+			config.webhookSecretName
+		);
+
+		const chatNotifierLambda = new NodejsFunction(this, "ChatNotifierLambda", {
+			functionName: resourceName("quote-chat-notifier"),
+			runtime: Runtime.NODEJS_LATEST,
+			entry: path.join(__dirname, "../lambda/chat-notifier.ts"),
+			handler: "handler",
+			timeout: cdk.Duration.seconds(LAMBDA_TIMEOUT_SECONDS),
+			memorySize: 256,
+			environment: {
+				CHAT_WEBHOOK_FORMAT: config.format,
+				CHAT_WEBHOOK_SECRET_ID: webhookSecret.secretName,
+				...loggingEnvironment,
+			},
+			bundling: {
+				minify: true,
+				sourceMap: true,
+			},
+		});
+
+		webhookSecret.grantRead(chatNotifierLambda);
+
+		// Events the notifier still fails on after EventBridge's retries
+		const deadLetterQueue = new sqs.Queue(this, "ChatNotifierDLQ", {
+			queueName: resourceName("quote-chat-notifier-dlq"),
+			retentionPeriod: cdk.Duration.days(14),
+		});
+
+		new events.Rule(this, "ChatNotifierRule", {
+			ruleName: resourceName("quote-chat-notifier"),
+			description: "Posts quote requests to the chat webhook",
+			eventBus,
+			eventPattern: { source: [QUOTE_EVENT_SOURCE], detailType: [QUOTE_REQUESTED] },
+			targets: [
+				new eventsTargets.LambdaFunction(chatNotifierLambda, {
+					deadLetterQueue,
+					retryAttempts: 4,
+					maxEventAge: cdk.Duration.hours(2),
+				}),
+			],
+		});
+
+		return { deadLetterQueue };
 	}
 }
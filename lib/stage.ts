@@ -0,0 +1,68 @@
+import { METRICS_NAMESPACE } from "../lambda/metrics";
+
+/**
+ * Deployments of the whole app that can live side by side in one AWS account
+ */
+export const STAGES = ["dev", "staging", "prod"] as const;
+
+export type Stage = (typeof STAGES)[number];
+
+/**
+ * Parses STAGE, which defaults to prod so existing deployments keep working unchanged
+ */
+export function parseStage(value: string | undefined): Stage {
+	const stage = value?.trim() || "prod";
+	if (!STAGES.some((candidate) => candidate === stage)) {
+		throw new Error(`Invalid STAGE "${stage}": expected one of ${STAGES.join(", ")}`);
+	}
+	return stage as Stage;
+}
+
+/**
+ * Production keeps the stack IDs and resource names it had before stages existed, so deploying
+ * it does not replace its stacks, tables or queues. Other stages get a prefix.
+ */
+function isUnprefixed(stage: Stage): boolean {
+	return stage === "prod";
+}
+
+/**
+ * Subdomains of the root domain taken by the stages other than production, e.g. staging
+ */
+export const STAGE_SUBDOMAINS: readonly string[] = STAGES.filter((stage) => !isUnprefixed(stage));
+
+/**
+ * The CDK stack ID (and CloudFormation stack name) of a stage, e.g. Staging-AsDistributorsQuoteRequest
+ */
+export function stageStackId(stage: Stage, id: string): string {
+	return isUnprefixed(stage) ? id : `${stage[0].toUpperCase()}${stage.slice(1)}-${id}`;
+}
+
+/**
+ * The physical name of a resource in a stage, e.g. as-distributors-staging-quotes
+ */
+export function stageResourceName(stage: Stage, name: string): string {
+	return isUnprefixed(stage) ? `as-distributors-${name}` : `as-distributors-${stage}-${name}`;
+}
+
+/**
+ * The domain a stage is served from: production uses the root domain, other stages a
+ * subdomain of it, e.g. staging.example.com
+ */
+export function stageDomainName(stage: Stage, rootDomainName: string): string {
+	return isUnprefixed(stage) ? rootDomainName : `${stage}.${rootDomainName}`;
+}
+
+/**
+ * Keeps other stages' custom metrics out of production's dashboard and alarms
+ */
+export function stageMetricsNamespace(stage: Stage): string {
+	return isUnprefixed(stage) ? METRICS_NAMESPACE : `${METRICS_NAMESPACE}/${stage}`;
+}
+
+/**
+ * The name of an SSM parameter in a stage, e.g. /as-distributors/staging/sales-rep-registry
+ */
+export function stageParameterName(stage: Stage, name: string): string {
+	return `/as-distributors/${stage}/${name}`;
+}
@@ -0,0 +1,35 @@
+/* Generated from schema/product-catalog.v1.schema.json by `npm run schema:generate`. Do not edit by hand. */
+
+/**
+ * Products that can be quoted (schema version 1). Published with the website as /catalog.json and checked by the quote API.
+ */
+export interface ProductCatalog {
+	schemaVersion: 1;
+	/**
+	 * When the catalog was last published, for troubleshooting.
+	 */
+	updatedAt?: string;
+	products: CatalogProduct[];
+}
+export interface CatalogProduct {
+	itemNumber: string;
+	/**
+	 * Canonical name. Replaces the name the quote form submitted.
+	 */
+	productName: string;
+	/**
+	 * Most cases one quote may request. Defaults to the quote request schema maximum.
+	 */
+	maxQuantity?: number;
+	variant?: CatalogVariant;
+}
+/**
+ * Option the customer must pick for this product, e.g. flavor. Products without one take no variant.
+ */
+export interface CatalogVariant {
+	label: string;
+	/**
+	 * @minItems 1
+	 */
+	values: string[];
+}
@@ -0,0 +1,60 @@
+/* Generated from schema/quote-request-payload.v1.schema.json by `npm run schema:generate`. Do not edit by hand. */
+
+/**
+ * Quote request submitted by the website quote form (schema version 1).
+ */
+export interface QuoteRequestPayload {
+	contactInfo: {
+		name: string;
+		companyName: string;
+		email: string;
+		phone: string;
+		zipCode: string;
+		/**
+		 * Name of an active sales rep, or "New customer". Checked against the sales rep registry by the API.
+		 */
+		salesRep: string;
+	};
+	/**
+	 * @minItems 1
+	 */
+	quoteItems: QuoteItem[];
+	/**
+	 * Totals computed by the quote form. Accepted for compatibility but ignored: the API computes its own from quoteItems.
+	 */
+	metadata?: {
+		totalItems: number;
+		totalUniqueProducts: number;
+		submittedAt: string;
+	};
+	/**
+	 * Must be true: the customer agreed to be contacted by a sales rep.
+	 */
+	agreedToContact: true;
+	/**
+	 * Locale the form was submitted from. Used for the customer acknowledgement email.
+	 */
+	locale?: "en" | "es" | "sm" | "ko" | "zh";
+	/**
+	 * Honeypot field: hidden from people, so it must be left empty. Submissions that fill it in are rejected.
+	 */
+	website?: string;
+	/**
+	 * Token from GET /quote/form-token, fetched when the form is loaded. Required by the API.
+	 */
+	formToken?: string;
+	/**
+	 * CAPTCHA response token. Required by the API when CAPTCHA verification is enabled.
+	 */
+	captchaToken?: string;
+}
+export interface QuoteItem {
+	productName: string;
+	itemNumber: string;
+	/**
+	 * Number of cases requested.
+	 */
+	quantity: number;
+	variantLabel?: string;
+	variantValue?: string;
+}
@@ -0,0 +1,40 @@
+import * as dotenv from "dotenv";
+import * as path from "node:path";
+import { parseArgs } from "node:util";
+import { LOCAL_ADMIN_TOKEN_SECRET, signLocalJwt } from "./dev/local-jwt";
+
+/**
+ * Prints a signed test token for the dev server's admin API, standing in for a Cognito ID token.
+ * The dev server and this script share ADMIN_TOKEN_SECRET, or a fixed local secret.
+ *
+ * Usage:
+ *   npm run admin:token -- [--email judith@example.com] [--expires-in 3600]
+ *   curl -H "Authorization: Bearer $(npm run -s admin:token)" localhost:3001/admin/quotes
+ */
+dotenv.config({ path: path.join(__dirname, "../.env"), quiet: true });
+
+function main(): number {
+	const { values } = parseArgs({
+		options: {
+			email: { type: "string", default: "judith@example.com" },
+			"expires-in": { type: "string", default: "3600" },
+		},
+	});
+
+	const expiresInSeconds = Number(values["expires-in"]);
+	if (!Number.isInteger(expiresInSeconds) || expiresInSeconds <= 0) {
+		console.error("--expires-in must be a number of seconds");
+		return 1;
+	}
+
+	const token = signLocalJwt(
+		{ sub: values.email, email: values.email, "cognito:username": values.email },
+		process.env.ADMIN_TOKEN_SECRET || LOCAL_ADMIN_TOKEN_SECRET,
+		new Date(),
+		expiresInSeconds
+	);
+	console.log(token);
+	return 0;
+}
+
+process.exitCode = main();
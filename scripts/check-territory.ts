@@ -0,0 +1,74 @@
+import { parseArgs } from "node:util";
+import {
+	describeTerritoryRouting,
+	findTerritoryRule,
+	resolveTerritory,
+	validateTerritoryRules,
+} from "../lambda/territories";
+import { TERRITORY_RULES } from "../lambda/territory-table";
+import {
+	createSsmClient,
+	fetchSalesRepRegistry,
+	getSalesRepRegistryParameterName,
+	readSalesRepRegistryFile,
+} from "./dev/sales-rep-registry";
+import { loadStageEnv } from "./dev/stage-env";
+
+/**
+ * Checks zip codes against the territory table using the stage's sales rep registry in SSM,
+ * or a registry file that is about to be pushed.
+ *
+ * Usage: npm run territory:check -- [--registry reps.json] 95340 95202-1234
+ */
+const stage = loadStageEnv();
+
+async function main(): Promise<number> {
+	const { values, positionals: zipCodes } = parseArgs({
+		allowPositionals: true,
+		options: { registry: { type: "string" } },
+	});
+	if (zipCodes.length === 0) {
+		console.error(
+			"Usage: npm run territory:check -- [--registry <registry.json>] <zip code> [<zip code> ...]"
+		);
+		return 1;
+	}
+
+	const registry = values.registry
+		? readSalesRepRegistryFile(values.registry)
+		: await fetchSalesRepRegistry(createSsmClient(), getSalesRepRegistryParameterName(stage));
+
+	const errors = validateTerritoryRules(TERRITORY_RULES, registry);
+	if (errors.length > 0) {
+		console.error("Territory table is invalid:");
+		for (const error of errors) {
+			console.error(`  - ${error}`);
+		}
+		return 1;
+	}
+
+	for (const zipCode of zipCodes) {
+		const rule = findTerritoryRule(TERRITORY_RULES, zipCode);
+		const routing = resolveTerritory(TERRITORY_RULES, registry, zipCode);
+
+		console.log(zipCode);
+		if (rule) {
+			console.log(`  rule:     ${rule.id} (${rule.description})`);
+			console.log(`  primary:  ${rule.primaryRepId}`);
+			console.log(`  fallback: ${rule.fallbackRepId}`);
+		}
+		console.log(`  routing:  ${describeTerritoryRouting(routing, zipCode)}`);
+	}
+
+	return 0;
+}
+
+main().then(
+	(exitCode) => {
+		process.exitCode = exitCode;
+	},
+	(error) => {
+		console.error(error);
+		process.exitCode = 1;
+	}
+);
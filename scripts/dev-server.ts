@@ -0,0 +1,412 @@
+import type { MessageAttributeValue } from "@aws-sdk/client-sqs";
+import type {
+	APIGatewayProxyEventV2,
+	APIGatewayProxyEventV2WithJWTAuthorizer,
+	APIGatewayProxyResultV2,
+	APIGatewayProxyStructuredResultV2,
+} from "aws-lambda";
+import * as dotenv from "dotenv";
+import { randomUUID } from "node:crypto";
+import * as fs from "node:fs";
+import * as http from "node:http";
+import * as path from "node:path";
+import { parseArgs } from "node:util";
+import {
+	captureSesToOutbox,
+	routeEventsToLocalBus,
+	routeSqsToLocalQueues,
+	serveLocalConfig,
+	startLocalDynamoDb,
+} from "./dev/local-aws";
+import { QUOTE_EVENT_SOURCE, QUOTE_REQUESTED } from "../lambda/quote-events";
+import { CORRELATION_ID_HEADER } from "../lambda/types";
+import { LOCAL_ADMIN_TOKEN_SECRET, verifyLocalJwt } from "./dev/local-jwt";
+import { LocalQueue } from "./dev/local-queue";
+
+/**
+ * Runs the quote pipeline locally: POST /quote is served by the real API handler, accepted
+ * messages go through an in-memory queue to the real email processor, and outgoing emails
+ * are written to an outbox directory instead of being sent. Simulated SES delivery events go to
+ * the real SES event handler; send to bounce@simulator.amazonses.com or
+ * complaint@simulator.amazonses.com to exercise bounces and the suppression list.
+ *
+ * Usage: npm run dev:server -- [--port 3001] [--outbox .local/outbox] [--fail-email] [--captcha]
+ *   [--batch-size 10] [--batching-window-ms 1000] [--catalog scripts/dev/sample-catalog.json]
+ *   [--chat-format slack]
+ *
+ * --captcha enables the stub CAPTCHA verifier, which accepts any captchaToken except "fail".
+ * Quote items are checked against the catalog file given with --catalog, served at /catalog.json
+ * the way the website publishes it.
+ *
+ * The admin API is served under /admin/quotes. It takes the place of the Cognito JWT authorizer
+ * by checking test tokens from `npm run admin:token`.
+ *
+ * QuoteRequested events go to the real chat notifier, which posts in the --chat-format format
+ * (slack or teams) to /chat-webhook. The posts are written to the outbox's chat directory. Set
+ * CHAT_WEBHOOK_URL to post to a real channel instead.
+ */
+dotenv.config({ path: path.join(__dirname, "../.env"), quiet: true });
+
+const LOCAL_QUEUE_URL = "http://localhost/local/as-distributors-quote-requests";
+const LOCAL_DEAD_LETTER_QUEUE_URL = "http://localhost/local/as-distributors-quote-requests-dlq";
+const LOCAL_SALES_REP_REGISTRY_PARAMETER = "/as-distributors/local/sales-rep-registry";
+const LOCAL_FORM_TOKEN_SECRET_ID = "as-distributors-form-token-secret";
+const LOCAL_CHAT_WEBHOOK_SECRET_ID = "as-distributors-chat-webhook-url";
+
+/**
+ * Mirrors the redrive policy configured in QuoteRequestStack
+ */
+const MAX_RECEIVE_COUNT = 3;
+
+const API_ROUTES = new Set(["POST /quote", "GET /quote/form-token"]);
+
+/**
+ * Admin API routes as API Gateway matches them, with {id} as a path parameter
+ */
+const ADMIN_ROUTE_PATTERNS: { method: string; pattern: RegExp; path: string }[] = [
+	{ method: "GET", pattern: /^\/admin\/quotes$/, path: "/admin/quotes" },
+	{ method: "GET", pattern: /^\/admin\/quotes\/(?<id>[^/]+)$/, path: "/admin/quotes/{id}" },
+	{ method: "PATCH", pattern: /^\/admin\/quotes\/(?<id>[^/]+)$/, path: "/admin/quotes/{id}" },
+];
+
+const DEV_SALES_REP_REGISTRY = {
+	reps: [
+		{ id: "judith", name: "Judith", emails: ["judith@example.com"], active: true },
+		{ id: "sanjay", name: "Sanjay", emails: ["sanjay@example.com"], active: true },
+		{
+			id: "ajay",
+			name: "Ajay",
+			emails: ["ajay@example.com"],
+			active: true,
+			ccRepIds: ["sanjay"],
+		},
+	],
+	newCustomerRepIds: ["judith", "sanjay"],
+};
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+	return new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		request.on("data", (chunk: Buffer) => chunks.push(chunk));
+		request.on("end", () => resolve(Buffer.concat(chunks).toString("utf-8")));
+		request.on("error", reject);
+	});
+}
+
+function toApiGatewayEvent(request: http.IncomingMessage, body: string): APIGatewayProxyEventV2 {
+	const url = new URL(request.url ?? "/", "http://localhost");
+	const method = request.method ?? "GET";
+	const headers = Object.fromEntries(
+		Object.entries(request.headers).map(([name, value]) => [
+			name,
+			Array.isArray(value) ? value.join(",") : value,
+		])
+	);
+	const now = new Date();
+
+	// API Gateway joins repeated query parameters with commas
+	const queryStringParameters: Record<string, string> = {};
+	for (const [name, value] of url.searchParams) {
+		queryStringParameters[name] =
+			name in queryStringParameters ? `${queryStringParameters[name]},${value}` : value;
+	}
+
+	return {
+		version: "2.0",
+		routeKey: `${method} ${url.pathname}`,
+		rawPath: url.pathname,
+		rawQueryString: url.search.slice(1),
+		headers,
+		...(url.search && { queryStringParameters }),
+		requestContext: {
+			accountId: "000000000000",
+			apiId: "local",
+			domainName: "localhost",
+			domainPrefix: "localhost",
+			http: {
+				method,
+				path: url.pathname,
+				protocol: `HTTP/${request.httpVersion}`,
+				sourceIp: request.socket.remoteAddress ?? "127.0.0.1",
+				userAgent: request.headers["user-agent"] ?? "",
+			},
+			requestId: randomUUID(),
+			routeKey: `${method} ${url.pathname}`,
+			stage: "$default",
+			time: now.toISOString(),
+			timeEpoch: now.getTime(),
+		},
+		body,
+		isBase64Encoded: false,
+	};
+}
+
+/**
+ * Matches an admin route and checks its bearer token the way the JWT authorizer would.
+ * Returns undefined for paths that are not admin routes.
+ */
+function toAdminApiEvent(
+	request: http.IncomingMessage,
+	body: string,
+	tokenSecret: string
+): APIGatewayProxyEventV2WithJWTAuthorizer | "unauthorized" | undefined {
+	const url = new URL(request.url ?? "/", "http://localhost");
+	const route = ADMIN_ROUTE_PATTERNS.find(
+		({ method, pattern }) => method === request.method && pattern.test(url.pathname)
+	);
+	if (!route) {
+		return undefined;
+	}
+
+	const token = /^Bearer (.+)$/.exec(request.headers.authorization ?? "")?.[1];
+	const claims = token && verifyLocalJwt(token, tokenSecret, new Date());
+	if (!claims) {
+		return "unauthorized";
+	}
+
+	const event = toApiGatewayEvent(request, body);
+	const routeKey = `${request.method} ${route.path}`;
+	const pathParameters = route.pattern.exec(url.pathname)?.groups;
+
+	return {
+		...event,
+		routeKey,
+		...(pathParameters && { pathParameters: { ...pathParameters } }),
+		requestContext: {
+			...event.requestContext,
+			routeKey,
+			authorizer: {
+				principalId: "",
+				integrationLatency: 0,
+				jwt: {
+					claims: Object.fromEntries(
+						Object.entries(claims).map(([name, value]) => [
+							name,
+							Array.isArray(value) ? `[${value.join(" ")}]` : value,
+						])
+					),
+					scopes: [],
+				},
+			},
+		},
+	};
+}
+
+function writeDeadLetter(outboxDir: string, messageId: string, details: object): void {
+	const dlqDir = path.join(outboxDir, "dlq");
+	fs.mkdirSync(dlqDir, { recursive: true });
+	fs.writeFileSync(path.join(dlqDir, `${messageId}.json`), JSON.stringify(details, null, 2));
+	console.error(`[dlq] Message ${messageId} moved to ${dlqDir}`);
+}
+
+function writeChatPost(outboxDir: string, body: string): void {
+	const chatDir = path.join(outboxDir, "chat");
+	fs.mkdirSync(chatDir, { recursive: true });
+	const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID()}.json`;
+	fs.writeFileSync(path.join(chatDir, fileName), JSON.stringify(JSON.parse(body), null, 2));
+	console.log(`[chat] Message written to ${path.join(chatDir, fileName)}`);
+}
+
+function writeResult(
+	response: http.ServerResponse,
+	result: APIGatewayProxyResultV2,
+	corsHeaders: Record<string, string>
+): void {
+	const structured: APIGatewayProxyStructuredResultV2 =
+		typeof result === "string" ? { statusCode: 200, body: result } : result;
+
+	response.writeHead(structured.statusCode ?? 200, {
+		...corsHeaders,
+		...(structured.headers as Record<string, string> | undefined),
+	});
+	response.end(structured.body ?? "");
+}
+
+async function main(): Promise<void> {
+	const { values } = parseArgs({
+		options: {
+			port: { type: "string", default: "3001" },
+			outbox: { type: "string", default: path.join(__dirname, "../.local/outbox") },
+			"fail-email": { type: "boolean", default: false },
+			"retry-delay-ms": { type: "string", default: "2000" },
+			captcha: { type: "boolean", default: false },
+			"batch-size": { type: "string", default: "10" },
+			"batching-window-ms": { type: "string", default: "1000" },
+			catalog: { type: "string", default: path.join(__dirname, "dev/sample-catalog.json") },
+			"chat-format": { type: "string", default: "slack" },
+		},
+	});
+
+	const outboxDir = path.resolve(values.outbox);
+	const adminTokenSecret = process.env.ADMIN_TOKEN_SECRET || LOCAL_ADMIN_TOKEN_SECRET;
+
+	process.env.AWS_REGION ??= "us-east-1";
+	process.env.AWS_ACCESS_KEY_ID ??= "local";
+	process.env.AWS_SECRET_ACCESS_KEY ??= "local";
+	const dynamoDb = await startLocalDynamoDb();
+
+	// Lambda modules read their configuration when they are first imported
+	process.env.QUEUE_URL = LOCAL_QUEUE_URL;
+	process.env.DEAD_LETTER_QUEUE_URL = LOCAL_DEAD_LETTER_QUEUE_URL;
+	process.env.QUOTES_TABLE_NAME = "as-distributors-quotes";
+	process.env.RATE_LIMIT_TABLE_NAME = "as-distributors-rate-limits";
+	process.env.SUBMISSIONS_TABLE_NAME = "as-distributors-submissions";
+	process.env.EMAIL_SUPPRESSIONS_TABLE_NAME = "as-distributors-email-suppressions";
+	process.env.SES_CONFIGURATION_SET_NAME = "as-distributors-quote-emails";
+	process.env.SES_SEND_RATE_PER_INSTANCE ??= "5";
+	process.env.FORM_TOKEN_SECRET_ID = LOCAL_FORM_TOKEN_SECRET_ID;
+	process.env.SENDER_EMAIL = "noreply@localhost";
+	process.env.SALES_REP_REGISTRY_PARAMETER = LOCAL_SALES_REP_REGISTRY_PARAMETER;
+	process.env.CATALOG_URL = `http://localhost:${values.port}/catalog.json`;
+	process.env.EVENT_BUS_NAME = "as-distributors-quote-events";
+	process.env.CHAT_WEBHOOK_FORMAT = values["chat-format"];
+	process.env.CHAT_WEBHOOK_SECRET_ID = LOCAL_CHAT_WEBHOOK_SECRET_ID;
+	process.env.LOG_HASH_KEY ??= "local-log-hash-key-not-for-production";
+	const catalogPath = path.resolve(values.catalog);
+	// Never call a real CAPTCHA provider configured in .env
+	if (values.captcha) {
+		process.env.CAPTCHA_PROVIDER = "stub";
+	} else {
+		delete process.env.CAPTCHA_PROVIDER;
+	}
+
+	const { handler: apiHandler } = await import("../lambda/api-handler");
+	const { handler: emailProcessor } = await import("../lambda/email-processor");
+	const { handler: sesEventHandler } = await import("../lambda/ses-event-handler");
+	const { handler: adminApiHandler } = await import("../lambda/admin-api");
+	const { handler: chatNotifier } = await import("../lambda/chat-notifier");
+
+	const sesEventsQueue = new LocalQueue({
+		name: "as-distributors-ses-events",
+		maxReceiveCount: MAX_RECEIVE_COUNT,
+		retryDelayMs: Number(values["retry-delay-ms"]),
+		consumer: sesEventHandler,
+		onDeadLetter: (message, error) =>
+			writeDeadLetter(outboxDir, message.messageId, { ...message, error: String(error) }),
+	});
+
+	// SALES_REP_REGISTRY (single-line JSON) replaces the sample registry
+	serveLocalConfig({
+		parameters: {
+			[LOCAL_SALES_REP_REGISTRY_PARAMETER]:
+				process.env.SALES_REP_REGISTRY ?? JSON.stringify(DEV_SALES_REP_REGISTRY),
+		},
+		secrets: {
+			[LOCAL_FORM_TOKEN_SECRET_ID]: "local-form-token-secret-not-for-production",
+			[LOCAL_CHAT_WEBHOOK_SECRET_ID]:
+				process.env.CHAT_WEBHOOK_URL || `http://localhost:${values.port}/chat-webhook`,
+		},
+	});
+	routeEventsToLocalBus([
+		{
+			source: QUOTE_EVENT_SOURCE,
+			detailType: QUOTE_REQUESTED,
+			handler: (event) => chatNotifier(event as Parameters<typeof chatNotifier>[0]),
+		},
+	]);
+	captureSesToOutbox(outboxDir, { failSends: values["fail-email"], sesEvents: sesEventsQueue });
+
+	const quoteQueue = new LocalQueue({
+		name: "as-distributors-quote-requests",
+		maxReceiveCount: MAX_RECEIVE_COUNT,
+		retryDelayMs: Number(values["retry-delay-ms"]),
+		batchSize: Number(values["batch-size"]),
+		batchingWindowMs: Number(values["batching-window-ms"]),
+		consumer: emailProcessor,
+		onDeadLetter: (message, error) =>
+			writeDeadLetter(outboxDir, message.messageId, { ...message, error: String(error) }),
+	});
+
+	// Messages the email processor rejects without retrying
+	const deadLetterQueue = {
+		send: (body: string, messageAttributes?: Record<string, MessageAttributeValue>) => {
+			const messageId = randomUUID();
+			writeDeadLetter(outboxDir, messageId, { messageId, body, messageAttributes });
+			return messageId;
+		},
+	};
+
+	routeSqsToLocalQueues({
+		[LOCAL_QUEUE_URL]: quoteQueue,
+		[LOCAL_DEAD_LETTER_QUEUE_URL]: deadLetterQueue,
+	});
+
+	const server = http.createServer(async (request, response) => {
+		const corsHeaders = {
+			"Access-Control-Allow-Origin": request.headers.origin ?? "*",
+			"Access-Control-Allow-Methods": "GET, POST, PATCH",
+			"Access-Control-Allow-Headers": "Content-Type, Idempotency-Key, Authorization",
+			"Access-Control-Expose-Headers": CORRELATION_ID_HEADER,
+		};
+
+		try {
+			if (request.method === "OPTIONS") {
+				response.writeHead(204, corsHeaders);
+				response.end();
+				return;
+			}
+
+			const body = await readBody(request);
+			const adminEvent = toAdminApiEvent(request, body, adminTokenSecret);
+			if (adminEvent === "unauthorized") {
+				response.writeHead(401, corsHeaders);
+				response.end(JSON.stringify({ message: "Unauthorized" }));
+				return;
+			}
+			if (adminEvent) {
+				writeResult(response, await adminApiHandler(adminEvent), corsHeaders);
+				return;
+			}
+
+			const url = new URL(request.url ?? "/", "http://localhost");
+			if (request.method === "POST" && url.pathname === "/chat-webhook") {
+				writeChatPost(outboxDir, body);
+				response.writeHead(200);
+				response.end("ok");
+				return;
+			}
+
+			if (request.method === "GET" && url.pathname === "/catalog.json") {
+				// Read on every request so edits to the file apply once the API's cache expires
+				response.writeHead(200, { ...corsHeaders, "Content-Type": "application/json" });
+				response.end(fs.readFileSync(catalogPath));
+				return;
+			}
+
+			if (!API_ROUTES.has(`${request.method} ${url.pathname}`)) {
+				response.writeHead(404, corsHeaders);
+				response.end(JSON.stringify({ message: "Not Found" }));
+				return;
+			}
+
+			const event = toApiGatewayEvent(request, body);
+			writeResult(response, await apiHandler(event), corsHeaders);
+		} catch (error) {
+			console.error("Local server error:", error);
+			response.writeHead(500, corsHeaders);
+			response.end(JSON.stringify({ message: "Internal Server Error" }));
+		}
+	});
+
+	server.listen(Number(values.port), () => {
+		console.log(`Quote API listening on http://localhost:${values.port}/quote`);
+		console.log(`Form tokens from http://localhost:${values.port}/quote/form-token`);
+		console.log(
+			`Admin API at http://localhost:${values.port}/admin/quotes (tokens: npm run admin:token)`
+		);
+		console.log(`Product catalog from ${catalogPath}`);
+		console.log(`Local DynamoDB at ${dynamoDb.endpoint}`);
+		console.log(`Emails are written to ${outboxDir}`);
+	});
+
+	process.on("SIGINT", () => {
+		server.close();
+		dynamoDb.close();
+		process.exit(0);
+	});
+}
+
+main().catch((error) => {
+	console.error(error);
+	process.exitCode = 1;
+});
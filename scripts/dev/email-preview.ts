@@ -0,0 +1,39 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { buildMimeMessage } from "../../lambda/mime";
+import type { TemplateFixture } from "../../lambda/templates/fixtures";
+
+const PREVIEW_SENDER = "A & S Distributors <noreply@example.com>";
+
+export const DEFAULT_PREVIEW_DIR = path.join(__dirname, "../../email-previews");
+
+/**
+ * Renders a fixture to .html, .txt and .eml files in outDir, plus each attachment next to them
+ */
+export async function writePreview(fixture: TemplateFixture, outDir: string): Promise<void> {
+	const { subject, htmlBody, textBody } = fixture.render();
+	const attachments = (await fixture.renderAttachments?.()) ?? [];
+	const basePath = path.join(outDir, fixture.name);
+
+	fs.writeFileSync(`${basePath}.html`, htmlBody);
+	fs.writeFileSync(`${basePath}.txt`, `Subject: ${subject}\n\n${textBody}\n`);
+	fs.writeFileSync(
+		`${basePath}.eml`,
+		buildMimeMessage({
+			from: PREVIEW_SENDER,
+			to: fixture.to,
+			replyTo: fixture.replyTo,
+			subject,
+			htmlBody,
+			textBody,
+			attachments,
+		})
+	);
+	console.log(`${fixture.name}: ${basePath}.{html,txt,eml}`);
+
+	for (const attachment of attachments) {
+		const attachmentPath = `${basePath}-${attachment.filename}`;
+		fs.writeFileSync(attachmentPath, attachment.content);
+		console.log(`${" ".repeat(fixture.name.length)}  ${attachmentPath}`);
+	}
+}
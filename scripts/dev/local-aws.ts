@@ -0,0 +1,297 @@
+/// <reference path="./dynalite.d.ts" />
+import {
+	CreateTableCommand,
+	type CreateTableCommandInput,
+	DynamoDBClient,
+} from "@aws-sdk/client-dynamodb";
+import { EventBridgeClient, PutEventsCommand } from "@aws-sdk/client-eventbridge";
+import { GetSecretValueCommand, SecretsManagerClient } from "@aws-sdk/client-secrets-manager";
+import { SendEmailCommand, SendRawEmailCommand, SESClient } from "@aws-sdk/client-ses";
+import { SendMessageCommand, SQSClient } from "@aws-sdk/client-sqs";
+import { GetParameterCommand, SSMClient } from "@aws-sdk/client-ssm";
+import type { EventBridgeEvent } from "aws-lambda";
+import dynalite = require("dynalite");
+import { randomUUID } from "node:crypto";
+import * as fs from "node:fs";
+import type { AddressInfo } from "node:net";
+import * as path from "node:path";
+import { buildMimeMessage } from "../../lambda/mime";
+import type { LocalQueue } from "./local-queue";
+
+/**
+ * Tables created in the local DynamoDB, mirroring QuoteRequestStack.
+ * Keep in sync with the stack when adding tables or indexes.
+ */
+export const LOCAL_TABLES: CreateTableCommandInput[] = [
+	{
+		TableName: "as-distributors-quotes",
+		KeySchema: [{ AttributeName: "quoteId", KeyType: "HASH" }],
+		AttributeDefinitions: [
+			{ AttributeName: "quoteId", AttributeType: "S" },
+			{ AttributeName: "recordType", AttributeType: "S" },
+			{ AttributeName: "createdAt", AttributeType: "S" },
+		],
+		GlobalSecondaryIndexes: [
+			{
+				IndexName: "byCreatedAt",
+				KeySchema: [
+					{ AttributeName: "recordType", KeyType: "HASH" },
+					{ AttributeName: "createdAt", KeyType: "RANGE" },
+				],
+				Projection: { ProjectionType: "ALL" },
+			},
+		],
+		BillingMode: "PAY_PER_REQUEST",
+	},
+	{
+		TableName: "as-distributors-submissions",
+		KeySchema: [{ AttributeName: "submissionKey", KeyType: "HASH" }],
+		AttributeDefinitions: [{ AttributeName: "submissionKey", AttributeType: "S" }],
+		BillingMode: "PAY_PER_REQUEST",
+	},
+	{
+		TableName: "as-distributors-email-suppressions",
+		KeySchema: [{ AttributeName: "email", KeyType: "HASH" }],
+		AttributeDefinitions: [{ AttributeName: "email", AttributeType: "S" }],
+		BillingMode: "PAY_PER_REQUEST",
+	},
+	{
+		TableName: "as-distributors-rate-limits",
+		KeySchema: [{ AttributeName: "rateLimitKey", KeyType: "HASH" }],
+		AttributeDefinitions: [{ AttributeName: "rateLimitKey", AttributeType: "S" }],
+		BillingMode: "PAY_PER_REQUEST",
+	},
+];
+
+/**
+ * Starts an in-memory DynamoDB and points every DynamoDB client at it
+ * through AWS_ENDPOINT_URL_DYNAMODB. Call before importing Lambda handlers.
+ */
+export async function startLocalDynamoDb(): Promise<{ endpoint: string; close: () => void }> {
+	const server = dynalite({ createTableMs: 0, deleteTableMs: 0, updateTableMs: 0 });
+	await new Promise<void>((resolve) => server.listen(0, resolve));
+
+	const { port } = server.address() as AddressInfo;
+	const endpoint = `http://127.0.0.1:${port}`;
+	process.env.AWS_ENDPOINT_URL_DYNAMODB = endpoint;
+
+	const client = new DynamoDBClient({});
+	for (const table of LOCAL_TABLES) {
+		await client.send(new CreateTableCommand(table));
+	}
+	client.destroy();
+
+	return { endpoint, close: () => server.close() };
+}
+
+/**
+ * Routes SendMessage calls for the given queue URLs to in-memory queues
+ */
+export function routeSqsToLocalQueues(queues: Record<string, Pick<LocalQueue, "send">>): void {
+	SQSClient.prototype.send = async function send(command: unknown) {
+		if (!(command instanceof SendMessageCommand)) {
+			throw new Error(`Local harness does not support ${(command as object).constructor.name}`);
+		}
+
+		const { QueueUrl, MessageBody, MessageAttributes } = command.input;
+		const queue = QueueUrl ? queues[QueueUrl] : undefined;
+		if (!queue) {
+			throw new Error(`Local harness has no queue for ${QueueUrl}`);
+		}
+
+		return { MessageId: queue.send(MessageBody ?? "", MessageAttributes), $metadata: {} };
+	} as SQSClient["send"];
+}
+
+/**
+ * Delivers PutEvents entries to the subscribers whose source and detail type match, in place of
+ * an EventBridge bus and its rules. Like EventBridge, delivery is asynchronous: a failing
+ * subscriber is logged and does not fail the publisher.
+ */
+export function routeEventsToLocalBus(
+	subscribers: {
+		source: string;
+		detailType: string;
+		handler: (event: EventBridgeEvent<string, unknown>) => Promise<unknown>;
+	}[]
+): void {
+	EventBridgeClient.prototype.send = async function send(command: unknown) {
+		if (!(command instanceof PutEventsCommand)) {
+			throw new Error(`Local harness does not support ${(command as object).constructor.name}`);
+		}
+
+		const entries = command.input.Entries ?? [];
+		for (const entry of entries) {
+			const event: EventBridgeEvent<string, unknown> = {
+				version: "0",
+				id: randomUUID(),
+				"detail-type": entry.DetailType ?? "",
+				source: entry.Source ?? "",
+				account: "000000000000",
+				time: new Date().toISOString(),
+				region: process.env.AWS_REGION ?? "local",
+				resources: entry.Resources ?? [],
+				detail: JSON.parse(entry.Detail ?? "{}"),
+			};
+			console.log(`[events] ${event.source} ${event["detail-type"]} on ${entry.EventBusName}`);
+
+			for (const subscriber of subscribers) {
+				if (subscriber.source === event.source && subscriber.detailType === event["detail-type"]) {
+					setImmediate(() =>
+						subscriber
+							.handler(event)
+							.catch((error) => console.error("[events] Subscriber failed:", error))
+					);
+				}
+			}
+		}
+
+		return {
+			FailedEntryCount: 0,
+			Entries: entries.map(() => ({ EventId: randomUUID() })),
+			$metadata: {},
+		};
+	} as EventBridgeClient["send"];
+}
+
+/**
+ * Answers GetParameter and GetSecretValue calls from in-memory values, keyed by parameter name
+ * and secret ID, in place of SSM Parameter Store and Secrets Manager
+ */
+export function serveLocalConfig(config: {
+	parameters: Record<string, string>;
+	secrets: Record<string, string>;
+}): void {
+	SSMClient.prototype.send = async function send(command: unknown) {
+		if (!(command instanceof GetParameterCommand)) {
+			throw new Error(`Local harness does not support ${(command as object).constructor.name}`);
+		}
+
+		const name = command.input.Name ?? "";
+		if (!Object.hasOwn(config.parameters, name)) {
+			throw new Error(`Local harness has no parameter ${name}`);
+		}
+		return { Parameter: { Name: name, Value: config.parameters[name] }, $metadata: {} };
+	} as SSMClient["send"];
+
+	SecretsManagerClient.prototype.send = async function send(command: unknown) {
+		if (!(command instanceof GetSecretValueCommand)) {
+			throw new Error(`Local harness does not support ${(command as object).constructor.name}`);
+		}
+
+		const secretId = command.input.SecretId ?? "";
+		if (!Object.hasOwn(config.secrets, secretId)) {
+			throw new Error(`Local harness has no secret ${secretId}`);
+		}
+		return { Name: secretId, SecretString: config.secrets[secretId], $metadata: {} };
+	} as SecretsManagerClient["send"];
+}
+
+/**
+ * Builds the events the SES configuration set would publish for a sent email. Addresses of the
+ * SES mailbox simulator bounce or complain as they would in SES; every other recipient is delivered.
+ */
+function simulateSesEvents(
+	messageId: string,
+	recipients: string[],
+	tags: { Name?: string; Value?: string }[]
+): object[] {
+	const timestamp = new Date().toISOString();
+	const mail = {
+		messageId,
+		timestamp,
+		destination: recipients,
+		tags: Object.fromEntries(tags.map(({ Name, Value }) => [Name, [Value]])),
+	};
+
+	return recipients.map((recipient) => {
+		if (recipient === "bounce@simulator.amazonses.com") {
+			return {
+				eventType: "Bounce",
+				mail,
+				bounce: {
+					timestamp,
+					bounceType: "Permanent",
+					bounceSubType: "General",
+					bouncedRecipients: [{ emailAddress: recipient }],
+				},
+			};
+		}
+		if (recipient === "complaint@simulator.amazonses.com") {
+			return {
+				eventType: "Complaint",
+				mail,
+				complaint: {
+					timestamp,
+					complaintFeedbackType: "abuse",
+					complainedRecipients: [{ emailAddress: recipient }],
+				},
+			};
+		}
+		return { eventType: "Delivery", mail, delivery: { timestamp, recipients: [recipient] } };
+	});
+}
+
+/**
+ * Writes every outgoing SES email to the outbox directory as .eml and .json files instead of
+ * sending it. When failSends is set, every send throws to exercise retries and the DLQ.
+ * Events the configuration set would publish for SendEmail calls are sent to sesEvents.
+ */
+export function captureSesToOutbox(
+	outboxDir: string,
+	options: { failSends: boolean; sesEvents?: Pick<LocalQueue, "send"> }
+): void {
+	fs.mkdirSync(outboxDir, { recursive: true });
+
+	SESClient.prototype.send = async function send(command: unknown) {
+		if (options.failSends) {
+			throw new Error("Simulated SES failure (--fail-email)");
+		}
+
+		const messageId = randomUUID();
+		const fileBase = path.join(
+			outboxDir,
+			`${new Date().toISOString().replace(/[:.]/g, "-")}-${messageId}`
+		);
+
+		if (command instanceof SendEmailCommand) {
+			const { Source, Destination, ReplyToAddresses, Message } = command.input;
+			fs.writeFileSync(
+				`${fileBase}.eml`,
+				buildMimeMessage({
+					from: Source ?? "",
+					to: Destination?.ToAddresses ?? [],
+					replyTo: ReplyToAddresses,
+					subject: Message?.Subject?.Data ?? "",
+					htmlBody: Message?.Body?.Html?.Data ?? "",
+					textBody: Message?.Body?.Text?.Data ?? "",
+				})
+			);
+			fs.writeFileSync(`${fileBase}.json`, JSON.stringify(command.input, null, 2));
+			console.log(`[ses] ${Message?.Subject?.Data} -> ${Destination?.ToAddresses?.join(", ")}`);
+
+			const recipients = Destination?.ToAddresses ?? [];
+			for (const event of simulateSesEvents(messageId, recipients, command.input.Tags ?? [])) {
+				options.sesEvents?.send(JSON.stringify(event));
+			}
+		} else if (command instanceof SendRawEmailCommand) {
+			const { Destinations, RawMessage, Tags } = command.input;
+			const rawMessage = Buffer.from(RawMessage?.Data ?? new Uint8Array()).toString("utf-8");
+			fs.writeFileSync(`${fileBase}.eml`, rawMessage);
+			// Non-ASCII subjects are RFC 2047 encoded-words, see lambda/mime.ts
+			const subject = (/^Subject: (.*)$/m.exec(rawMessage)?.[1] ?? "").replace(
+				/^=\?UTF-8\?B\?(.*)\?=$/,
+				(_, encoded: string) => Buffer.from(encoded, "base64").toString("utf-8")
+			);
+			console.log(`[ses] ${subject} -> ${Destinations?.join(", ") ?? "headers"}`);
+
+			for (const event of simulateSesEvents(messageId, Destinations ?? [], Tags ?? [])) {
+				options.sesEvents?.send(JSON.stringify(event));
+			}
+		} else {
+			throw new Error(`Local harness does not support ${(command as object).constructor.name}`);
+		}
+
+		return { MessageId: messageId, $metadata: {} };
+	} as SESClient["send"];
+}
@@ -0,0 +1,61 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+/**
+ * Signs admin API test tokens for the dev server. In AWS the API Gateway JWT authorizer verifies
+ * Cognito tokens; locally the dev server verifies these HS256 tokens in its place and hands the
+ * claims to the admin API handler the same way.
+ */
+export const LOCAL_ADMIN_TOKEN_SECRET = "local-admin-token-secret-not-for-production";
+
+export type JwtClaims = Record<string, string | number | boolean | string[]>;
+
+function sign(data: string, secret: string): string {
+	return createHmac("sha256", secret).update(data).digest("base64url");
+}
+
+function encodeSegment(value: object): string {
+	return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+/**
+ * Signs a token for a signed-in rep, with the claims a Cognito ID token carries
+ */
+export function signLocalJwt(
+	claims: JwtClaims,
+	secret: string,
+	now: Date,
+	expiresInSeconds: number
+): string {
+	const issuedAt = Math.floor(now.getTime() / 1000);
+	const header = encodeSegment({ alg: "HS256", typ: "JWT" });
+	const payload = encodeSegment({
+		token_use: "id",
+		iat: issuedAt,
+		exp: issuedAt + expiresInSeconds,
+		...claims,
+	});
+	return `${header}.${payload}.${sign(`${header}.${payload}`, secret)}`;
+}
+
+/**
+ * Returns the token's claims, or undefined when the signature is wrong or the token expired
+ */
+export function verifyLocalJwt(token: string, secret: string, now: Date): JwtClaims | undefined {
+	const [header, payload, signature, ...rest] = token.split(".");
+	if (!header || !payload || !signature || rest.length > 0) {
+		return undefined;
+	}
+
+	const expected = Buffer.from(sign(`${header}.${payload}`, secret));
+	const actual = Buffer.from(signature);
+	if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+		return undefined;
+	}
+
+	try {
+		const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8")) as JwtClaims;
+		return typeof claims.exp === "number" && claims.exp * 1000 > now.getTime() ? claims : undefined;
+	} catch {
+		return undefined;
+	}
+}
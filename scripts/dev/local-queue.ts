@@ -0,0 +1,164 @@
+import type { MessageAttributeValue } from "@aws-sdk/client-sqs";
+import type { SQSBatchResponse, SQSEvent, SQSMessageAttributes, SQSRecord } from "aws-lambda";
+import { createHash, randomUUID } from "node:crypto";
+
+export interface LocalQueueMessage {
+	messageId: string;
+	body: string;
+	messageAttributes: Record<string, MessageAttributeValue>;
+	sentTimestamp: number;
+	receiveCount: number;
+}
+
+export interface LocalQueueOptions {
+	name: string;
+
+	/**
+	 * Mirrors the redrive policy of the deployed queue: after this many failed receives
+	 * the message moves to the dead letter queue.
+	 */
+	maxReceiveCount: number;
+
+	/**
+	 * Stands in for the visibility timeout before a failed message is received again.
+	 */
+	retryDelayMs: number;
+
+	/**
+	 * Mirror the event source mapping: up to batchSize messages are delivered together, waiting
+	 * at most batchingWindowMs for a batch to fill. Defaults to one message at a time.
+	 */
+	batchSize?: number;
+	batchingWindowMs?: number;
+
+	/**
+	 * Returning batchItemFailures fails only those messages, as with reportBatchItemFailures.
+	 * Throwing fails the whole batch.
+	 */
+	consumer: (event: SQSEvent) => Promise<SQSBatchResponse> | Promise<void>;
+	onDeadLetter: (message: LocalQueueMessage, error: unknown) => void;
+}
+
+function toRecordAttributes(
+	messageAttributes: Record<string, MessageAttributeValue>
+): SQSMessageAttributes {
+	return Object.fromEntries(
+		Object.entries(messageAttributes).map(([name, value]) => [
+			name,
+			{
+				dataType: value.DataType ?? "String",
+				stringValue: value.StringValue,
+				stringListValues: [],
+				binaryListValues: [],
+			},
+		])
+	);
+}
+
+/**
+ * In-memory stand-in for an SQS queue and its event source mapping
+ */
+export class LocalQueue {
+	private readonly deadLetters: LocalQueueMessage[] = [];
+	private readonly pending: LocalQueueMessage[] = [];
+	private flushTimer: NodeJS.Timeout | undefined;
+
+	constructor(private readonly options: LocalQueueOptions) {}
+
+	get arn(): string {
+		return `arn:aws:sqs:local:000000000000:${this.options.name}`;
+	}
+
+	get deadLetterMessages(): readonly LocalQueueMessage[] {
+		return this.deadLetters;
+	}
+
+	send(body: string, messageAttributes: Record<string, MessageAttributeValue> = {}): string {
+		const message: LocalQueueMessage = {
+			messageId: randomUUID(),
+			body,
+			messageAttributes,
+			sentTimestamp: Date.now(),
+			receiveCount: 0,
+		};
+
+		this.enqueue(message);
+		return message.messageId;
+	}
+
+	private enqueue(message: LocalQueueMessage): void {
+		this.pending.push(message);
+
+		if (this.pending.length >= (this.options.batchSize ?? 1)) {
+			clearTimeout(this.flushTimer);
+			this.flushTimer = undefined;
+			setImmediate(() => this.flush());
+		} else {
+			this.flushTimer ??= setTimeout(() => {
+				this.flushTimer = undefined;
+				this.flush();
+			}, this.options.batchingWindowMs ?? 0);
+		}
+	}
+
+	private flush(): void {
+		while (this.pending.length > 0) {
+			void this.deliver(this.pending.splice(0, this.options.batchSize ?? 1));
+		}
+	}
+
+	private toRecord(message: LocalQueueMessage): SQSRecord {
+		return {
+			messageId: message.messageId,
+			receiptHandle: `${message.messageId}-${message.receiveCount}`,
+			body: message.body,
+			attributes: {
+				ApproximateReceiveCount: String(message.receiveCount),
+				SentTimestamp: String(message.sentTimestamp),
+				SenderId: "local",
+				ApproximateFirstReceiveTimestamp: String(Date.now()),
+			},
+			messageAttributes: toRecordAttributes(message.messageAttributes),
+			md5OfBody: createHash("md5").update(message.body).digest("hex"),
+			eventSource: "aws:sqs",
+			eventSourceARN: this.arn,
+			awsRegion: "local",
+		};
+	}
+
+	private async deliver(batch: LocalQueueMessage[]): Promise<void> {
+		let failed: LocalQueueMessage[];
+		let error: unknown;
+
+		for (const message of batch) {
+			message.receiveCount += 1;
+		}
+
+		try {
+			const response = (await this.options.consumer({
+				Records: batch.map((message) => this.toRecord(message)),
+			})) as SQSBatchResponse | undefined;
+			const failedIds = new Set(
+				(response?.batchItemFailures ?? []).map(({ itemIdentifier }) => itemIdentifier)
+			);
+			failed = batch.filter((message) => failedIds.has(message.messageId));
+			error = "Reported in batchItemFailures";
+		} catch (batchError) {
+			failed = batch;
+			error = batchError;
+		}
+
+		for (const message of failed) {
+			if (message.receiveCount >= this.options.maxReceiveCount) {
+				this.deadLetters.push(message);
+				this.options.onDeadLetter(message, error);
+				continue;
+			}
+
+			console.warn(
+				`[${this.options.name}] Message ${message.messageId} failed (receive ${message.receiveCount}/${this.options.maxReceiveCount}), retrying in ${this.options.retryDelayMs}ms`
+			);
+			setTimeout(() => this.enqueue(message), this.options.retryDelayMs);
+		}
+	}
+}
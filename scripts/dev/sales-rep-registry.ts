@@ -0,0 +1,31 @@
+import { GetParameterCommand, SSMClient } from "@aws-sdk/client-ssm";
+import * as fs from "node:fs";
+import { parseSalesRepRegistry, type SalesRepRegistry } from "../../lambda/sales-reps";
+import { type Stage, stageParameterName } from "../../lib/stage";
+
+/**
+ * The SSM parameter the stage's Lambdas read the registry from
+ */
+export function getSalesRepRegistryParameterName(stage: Stage): string {
+	return (
+		process.env.SALES_REP_REGISTRY_PARAMETER || stageParameterName(stage, "sales-rep-registry")
+	);
+}
+
+export function createSsmClient(): SSMClient {
+	return new SSMClient({ region: process.env.AWS_REGION ?? process.env.CDK_DEFAULT_REGION });
+}
+
+export async function fetchSalesRepRegistry(
+	ssmClient: SSMClient,
+	parameterName: string
+): Promise<SalesRepRegistry> {
+	const response = await ssmClient.send(
+		new GetParameterCommand({ Name: parameterName, WithDecryption: true })
+	);
+	return parseSalesRepRegistry(response.Parameter?.Value ?? "");
+}
+
+export function readSalesRepRegistryFile(file: string): SalesRepRegistry {
+	return parseSalesRepRegistry(fs.readFileSync(file, "utf-8"));
+}
@@ -0,0 +1,14 @@
+import * as dotenv from "dotenv";
+import * as path from "node:path";
+import { parseStage, type Stage } from "../../lib/stage";
+
+/**
+ * Loads .env.<stage> and then .env the way lib/env.ts does, for scripts that work on a deployed
+ * stage. STAGE (dev, staging or prod; default prod) comes from the shell.
+ */
+export function loadStageEnv(): Stage {
+	const stage = parseStage(process.env.STAGE);
+	dotenv.config({ path: path.join(__dirname, `../../.env.${stage}`), quiet: true });
+	dotenv.config({ path: path.join(__dirname, "../../.env"), quiet: true });
+	return stage;
+}
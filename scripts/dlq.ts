@@ -0,0 +1,166 @@
+import { InvokeCommand, LambdaClient } from "@aws-sdk/client-lambda";
+import * as fs from "node:fs";
+import { parseArgs } from "node:util";
+import type { DlqAdminRequest, DlqMessageSummary, RedriveResult } from "../lambda/dlq-admin";
+import { validateQueuedQuoteRequest } from "../lambda/quote-request-schema";
+import { createQuoteRequestFixtures } from "../lambda/templates/fixtures";
+import type { QueuedQuoteRequest } from "../lambda/types";
+import { stageResourceName } from "../lib/stage";
+import { DEFAULT_PREVIEW_DIR, writePreview } from "./dev/email-preview";
+import { loadStageEnv } from "./dev/stage-env";
+
+/**
+ * Inspects and redrives the quote request dead letter queue through the DLQ admin Lambda.
+ * Uses the AWS credentials of the current shell.
+ *
+ * Usage:
+ *   npm run dlq -- list [--max 20] [--json]
+ *   npm run dlq -- render <messageId> [--out email-previews]
+ *   npm run dlq -- redrive <messageId>... | --all
+ *
+ * Set STAGE (dev, staging or prod; default prod) to use another stage's DLQ.
+ */
+const stage = loadStageEnv();
+
+const DLQ_ADMIN_FUNCTION_NAME = stageResourceName(stage, "dlq-admin");
+
+const lambdaClient = new LambdaClient({
+	region: process.env.AWS_REGION ?? process.env.CDK_DEFAULT_REGION,
+});
+
+async function invoke<T>(request: DlqAdminRequest): Promise<T> {
+	const response = await lambdaClient.send(
+		new InvokeCommand({
+			FunctionName: DLQ_ADMIN_FUNCTION_NAME,
+			Payload: JSON.stringify(request),
+		})
+	);
+	const payload = new TextDecoder().decode(response.Payload);
+
+	if (response.FunctionError) {
+		throw new Error(`${DLQ_ADMIN_FUNCTION_NAME} failed: ${payload}`);
+	}
+	return JSON.parse(payload) as T;
+}
+
+function printSummary(message: DlqMessageSummary): void {
+	const { customer } = message;
+	const totalCases = message.items.reduce((total, item) => total + (item.quantity ?? 0), 0);
+
+	console.log(`${message.messageId}  ${message.quoteId ?? "(no quote ID)"}`);
+	console.log(`  Sent:      ${message.sentAt ?? "unknown"} (received ${message.receiveCount}x)`);
+	console.log(
+		`  Customer:  ${customer?.name ?? "?"}, ${customer?.companyName ?? "?"} <${customer?.email ?? "?"}>`
+	);
+	console.log(`  Sales rep: ${message.salesRep ?? "?"}`);
+	console.log(`  Items:     ${message.items.length} item(s), ${totalCases} case(s)`);
+	for (const item of message.items) {
+		console.log(`             - [${item.itemNumber}] ${item.productName}: ${item.quantity}`);
+	}
+	console.log(`  Failure:   ${message.failureReason ?? "unknown"}`);
+	console.log("");
+}
+
+async function list(maxMessages: number, json: boolean): Promise<number> {
+	const messages = await invoke<DlqMessageSummary[]>({ action: "list", maxMessages });
+
+	if (json) {
+		console.log(JSON.stringify(messages, null, 2));
+		return 0;
+	}
+	if (messages.length === 0) {
+		console.log("The dead letter queue is empty.");
+		return 0;
+	}
+	for (const message of messages) {
+		printSummary(message);
+	}
+	console.log(`${messages.length} message(s)`);
+	return 0;
+}
+
+async function render(messageId: string, outDir: string): Promise<number> {
+	const messages = await invoke<DlqMessageSummary[]>({ action: "list" });
+	const message = messages.find((candidate) => candidate.messageId === messageId);
+	if (!message) {
+		console.error(`Message ${messageId} is not in the dead letter queue.`);
+		return 1;
+	}
+
+	const quoteRequest = JSON.parse(message.body) as QueuedQuoteRequest;
+	const errors = validateQueuedQuoteRequest(quoteRequest);
+	if (errors.length > 0) {
+		console.warn(`Message does not match the quote request schema:\n  ${errors.join("\n  ")}`);
+	}
+
+	// Rendering the message as the email processor would reproduces template failures locally
+	fs.mkdirSync(outDir, { recursive: true });
+	for (const fixture of createQuoteRequestFixtures(quoteRequest, messageId, messageId)) {
+		try {
+			await writePreview(fixture, outDir);
+		} catch (error) {
+			console.error(`${fixture.name} failed to render:`, error);
+			return 1;
+		}
+	}
+	return 0;
+}
+
+async function redrive(messageIds: string[], all: boolean): Promise<number> {
+	const selectedIds = all
+		? (await invoke<DlqMessageSummary[]>({ action: "list" })).map(({ messageId }) => messageId)
+		: messageIds;
+	if (selectedIds.length === 0) {
+		console.error("Pass the message IDs to redrive, or --all.");
+		return 1;
+	}
+
+	const result = await invoke<RedriveResult>({ action: "redrive", messageIds: selectedIds });
+
+	for (const { messageId, quoteId, source } of result.redriven) {
+		console.log(`Redriven ${messageId} (${quoteId ?? "no quote ID"}) from the ${source}`);
+	}
+	for (const { messageId, error } of result.failed) {
+		console.error(`Failed   ${messageId}: ${error}`);
+	}
+	for (const messageId of result.notFound) {
+		console.error(`Missing  ${messageId}: not in the dead letter queue`);
+	}
+	return result.failed.length + result.notFound.length > 0 ? 1 : 0;
+}
+
+async function main(): Promise<number> {
+	const { values, positionals } = parseArgs({
+		allowPositionals: true,
+		options: {
+			max: { type: "string", default: "100" },
+			json: { type: "boolean", default: false },
+			out: { type: "string", default: DEFAULT_PREVIEW_DIR },
+			all: { type: "boolean", default: false },
+		},
+	});
+	const [command, ...args] = positionals;
+
+	if (command === "list") {
+		return list(Number(values.max), values.json);
+	}
+	if (command === "render" && args.length === 1) {
+		return render(args[0], values.out);
+	}
+	if (command === "redrive") {
+		return redrive(args, values.all);
+	}
+
+	console.error("Usage: npm run dlq -- list | render <messageId> | redrive <messageId>... | --all");
+	return 1;
+}
+
+main().then(
+	(exitCode) => {
+		process.exitCode = exitCode;
+	},
+	(error) => {
+		console.error(error);
+		process.exitCode = 1;
+	}
+);
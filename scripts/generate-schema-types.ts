@@ -0,0 +1,54 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { compileFromFile } from "json-schema-to-typescript";
+
+/**
+ * Generates TypeScript types from the versioned JSON schemas in schema/.
+ *
+ * Usage:
+ *   npm run schema:generate          # write the generated .ts files
+ *   npm run schema:generate -- --check  # fail if a generated file is out of date
+ */
+const SCHEMA_DIR = path.join(__dirname, "../schema");
+const SCHEMA_SUFFIX = ".schema.json";
+
+async function main(check: boolean): Promise<number> {
+	const schemaFiles = fs.readdirSync(SCHEMA_DIR).filter((file) => file.endsWith(SCHEMA_SUFFIX));
+	let outdated = 0;
+
+	for (const schemaFile of schemaFiles) {
+		const outputFile = path.join(SCHEMA_DIR, schemaFile.replace(SCHEMA_SUFFIX, ".ts"));
+		const types = await compileFromFile(path.join(SCHEMA_DIR, schemaFile), {
+			bannerComment: `/* Generated from schema/${schemaFile} by \`npm run schema:generate\`. Do not edit by hand. */`,
+			additionalProperties: false,
+			ignoreMinAndMaxItems: true,
+			style: { useTabs: true, printWidth: 100 },
+		});
+
+		if (!check) {
+			fs.writeFileSync(outputFile, types);
+			console.log(`Generated ${path.relative(process.cwd(), outputFile)}`);
+			continue;
+		}
+
+		const existing = fs.existsSync(outputFile) ? fs.readFileSync(outputFile, "utf-8") : "";
+		if (existing !== types) {
+			console.error(
+				`${path.relative(process.cwd(), outputFile)} is out of date. Run npm run schema:generate.`
+			);
+			outdated += 1;
+		}
+	}
+
+	return outdated > 0 ? 1 : 0;
+}
+
+main(process.argv.includes("--check")).then(
+	(exitCode) => {
+		process.exitCode = exitCode;
+	},
+	(error) => {
+		console.error(error);
+		process.exitCode = 1;
+	}
+);
@@ -0,0 +1,88 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { parseArgs } from "node:util";
+import { computeQuoteMetadata, lookupZipLocation } from "../lambda/request-context";
+import {
+	createQuoteRequestFixtures,
+	createSampleQuoteRequest,
+	TEMPLATE_FIXTURES,
+	type TemplateFixture,
+} from "../lambda/templates/fixtures";
+import type { QueuedQuoteRequest } from "../lambda/types";
+import { DEFAULT_PREVIEW_DIR, writePreview } from "./dev/email-preview";
+
+/**
+ * Renders email templates to .html, .txt and .eml files, and attachments such as the quote
+ * request PDF, for review without deploying.
+ *
+ * Usage:
+ *   npm run email:preview                               # every fixture
+ *   npm run email:preview -- rep-notification           # selected fixtures
+ *   npm run email:preview -- --payload quote.json       # a QuoteRequestPayload from a file
+ *   npm run email:preview -- --list
+ */
+function loadPayloadFixtures(payloadPath: string): TemplateFixture[] {
+	const payload = JSON.parse(fs.readFileSync(payloadPath, "utf-8")) as Partial<QueuedQuoteRequest>;
+	const sample = createSampleQuoteRequest(payload);
+	// Mirror the API handler, which ignores the client's totals and looks up the location itself
+	const quoteRequest: QueuedQuoteRequest = {
+		...sample,
+		metadata: computeQuoteMetadata(sample.quoteItems, new Date(sample.requestContext.receivedAt)),
+		requestContext: {
+			...sample.requestContext,
+			location: lookupZipLocation(sample.contactInfo.zipCode),
+		},
+	};
+	const baseName = path.basename(payloadPath, path.extname(payloadPath));
+
+	return createQuoteRequestFixtures(quoteRequest, baseName, payloadPath);
+}
+
+async function main(): Promise<number> {
+	const { values, positionals } = parseArgs({
+		allowPositionals: true,
+		options: {
+			out: { type: "string", default: DEFAULT_PREVIEW_DIR },
+			payload: { type: "string" },
+			list: { type: "boolean", default: false },
+		},
+	});
+
+	if (values.list) {
+		for (const fixture of TEMPLATE_FIXTURES) {
+			console.log(`${fixture.name.padEnd(40)} ${fixture.description}`);
+		}
+		return 0;
+	}
+
+	const fixtures = values.payload
+		? loadPayloadFixtures(values.payload)
+		: TEMPLATE_FIXTURES.filter(
+				(fixture) => positionals.length === 0 || positionals.includes(fixture.name)
+			);
+
+	const unknownNames = positionals.filter(
+		(name) => !TEMPLATE_FIXTURES.some((fixture) => fixture.name === name)
+	);
+	if (unknownNames.length > 0) {
+		console.error(`Unknown fixture(s): ${unknownNames.join(", ")}. Use --list to see them.`);
+		return 1;
+	}
+
+	fs.mkdirSync(values.out, { recursive: true });
+	for (const fixture of fixtures) {
+		await writePreview(fixture, values.out);
+	}
+
+	return 0;
+}
+
+main().then(
+	(exitCode) => {
+		process.exitCode = exitCode;
+	},
+	(error) => {
+		console.error(error);
+		process.exitCode = 1;
+	}
+);
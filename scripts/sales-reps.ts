@@ -0,0 +1,126 @@
+import {
+	GetIdentityVerificationAttributesCommand,
+	SESClient,
+	VerifyEmailIdentityCommand,
+} from "@aws-sdk/client-ses";
+import { PutParameterCommand } from "@aws-sdk/client-ssm";
+import { parseArgs } from "node:util";
+import type { SalesRepRegistry } from "../lambda/sales-reps";
+import { validateTerritoryRules } from "../lambda/territories";
+import { TERRITORY_RULES } from "../lambda/territory-table";
+import {
+	createSsmClient,
+	fetchSalesRepRegistry,
+	getSalesRepRegistryParameterName,
+	readSalesRepRegistryFile,
+} from "./dev/sales-rep-registry";
+import { loadStageEnv } from "./dev/stage-env";
+
+/**
+ * Shows and updates the sales rep registry the Lambdas read from SSM Parameter Store. A pushed
+ * registry is picked up within five minutes, without a deploy. Uses the AWS credentials of the
+ * current shell.
+ *
+ * Usage:
+ *   npm run sales-reps -- show
+ *   npm run sales-reps -- push <registry.json> [--verify-emails]
+ *
+ * --verify-emails sends an SES verification email to each active rep address that is not
+ * verified yet, which is needed while the account is in the SES sandbox.
+ * Set STAGE (dev, staging or prod; default prod) to use another stage's registry.
+ */
+const stage = loadStageEnv();
+
+const PARAMETER_NAME = getSalesRepRegistryParameterName(stage);
+
+const ssmClient = createSsmClient();
+const sesClient = new SESClient({
+	region: process.env.AWS_REGION ?? process.env.CDK_DEFAULT_REGION,
+});
+
+async function show(): Promise<number> {
+	const registry = await fetchSalesRepRegistry(ssmClient, PARAMETER_NAME);
+	console.log(JSON.stringify(registry, null, 2));
+	return 0;
+}
+
+/**
+ * Sends verification emails to active rep addresses SES has not verified or is not verifying yet
+ */
+async function verifyEmails(registry: SalesRepRegistry): Promise<void> {
+	const emails = [
+		...new Set(registry.reps.filter(({ active }) => active).flatMap(({ emails }) => emails)),
+	];
+	const { VerificationAttributes = {} } = await sesClient.send(
+		new GetIdentityVerificationAttributesCommand({ Identities: emails })
+	);
+
+	for (const email of emails) {
+		const status = VerificationAttributes[email]?.VerificationStatus;
+		if (status === "Success" || status === "Pending") {
+			console.log(`${email}: ${status === "Success" ? "verified" : "verification pending"}`);
+			continue;
+		}
+		await sesClient.send(new VerifyEmailIdentityCommand({ EmailAddress: email }));
+		console.log(`${email}: verification email sent`);
+	}
+}
+
+async function push(file: string, verify: boolean): Promise<number> {
+	const registry = readSalesRepRegistryFile(file);
+
+	// The email processor rejects a registry the territory table does not match
+	const errors = validateTerritoryRules(TERRITORY_RULES, registry);
+	if (errors.length > 0) {
+		console.error("Territory table does not match the registry:");
+		for (const error of errors) {
+			console.error(`  - ${error}`);
+		}
+		return 1;
+	}
+
+	await ssmClient.send(
+		new PutParameterCommand({
+			Name: PARAMETER_NAME,
+			Value: JSON.stringify(registry),
+			Type: "String",
+			Overwrite: true,
+		})
+	);
+	console.log(`Pushed ${registry.reps.length} rep(s) to ${PARAMETER_NAME}`);
+
+	if (verify) {
+		await verifyEmails(registry);
+	}
+	return 0;
+}
+
+async function main(): Promise<number> {
+	const { values, positionals } = parseArgs({
+		allowPositionals: true,
+		options: {
+			"verify-emails": { type: "boolean", default: false },
+		},
+	});
+	const [command, ...args] = positionals;
+
+	if (command === "show") {
+		return show();
+	}
+	if (command === "push" && args.length === 1) {
+		return push(args[0], values["verify-emails"]);
+	}
+
+	console.error("Usage: npm run sales-reps -- show | push <registry.json> [--verify-emails]");
+	return 1;
+}
+
+main().then(
+	(exitCode) => {
+		process.exitCode = exitCode;
+	},
+	(error) => {
+		console.error(error);
+		process.exitCode = 1;
+	}
+);
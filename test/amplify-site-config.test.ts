@@ -0,0 +1,175 @@
+import * as assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { after, before, describe, it } from "node:test";
+import {
+	buildCustomHeaders,
+	buildCustomRules,
+	COUNTRY_LOCALES,
+	loadLegacyRedirects,
+	type SiteRedirect,
+} from "../lib/amplify-site-config";
+
+/**
+ * Values of a header across the YAML's patterns, in order. The generator writes each value as a
+ * JSON-quoted scalar on the line after its key.
+ */
+function headerValues(yaml: string, key: string): string[] {
+	const pattern = new RegExp(`- key: ${key}\\n\\s+value: (".*")`, "g");
+	return [...yaml.matchAll(pattern)].map((match) => JSON.parse(match[1]));
+}
+
+function cspDirective(yaml: string, directive: string): string[] {
+	const [csp] = headerValues(yaml, "Content-Security-Policy");
+	const entry = csp
+		.split("; ")
+		.map((part) => part.split(" "))
+		.find(([name]) => name === directive);
+	assert.ok(entry, `CSP has no ${directive}`);
+	return entry.slice(1);
+}
+
+describe("buildCustomHeaders", () => {
+	const yaml = buildCustomHeaders({
+		quoteApiUrls: [
+			"https://api.example.com/v1/",
+			"https://api.staging.example.com/v1/",
+			"https://api.example.com/v1/quote",
+		],
+		captchaProvider: "turnstile",
+	});
+
+	it("allows each quote API origin once in connect-src", () => {
+		assert.deepEqual(cspDirective(yaml, "connect-src"), [
+			"'self'",
+			"https://api.example.com",
+			"https://api.staging.example.com",
+		]);
+	});
+
+	it("allows the captcha widget's script and frame", () => {
+		assert.deepEqual(cspDirective(yaml, "script-src"), [
+			"'self'",
+			"'unsafe-inline'",
+			"https://challenges.cloudflare.com",
+		]);
+		assert.deepEqual(cspDirective(yaml, "frame-src"), ["https://challenges.cloudflare.com"]);
+	});
+
+	it("allows no frames or captcha script without a captcha", () => {
+		const withoutCaptcha = buildCustomHeaders({ quoteApiUrls: ["https://api.example.com/v1/"] });
+		assert.deepEqual(cspDirective(withoutCaptcha, "script-src"), ["'self'", "'unsafe-inline'"]);
+		assert.deepEqual(cspDirective(withoutCaptcha, "frame-src"), ["'none'"]);
+	});
+
+	it("sets the security headers once, on every path", () => {
+		assert.match(yaml, /^customHeaders:\n {2}- pattern: "\*\*"\n/);
+		assert.deepEqual(headerValues(yaml, "Strict-Transport-Security"), [
+			"max-age=63072000; includeSubDomains",
+		]);
+		assert.deepEqual(headerValues(yaml, "X-Content-Type-Options"), ["nosniff"]);
+		assert.deepEqual(headerValues(yaml, "Referrer-Policy"), ["strict-origin-when-cross-origin"]);
+		assert.deepEqual(headerValues(yaml, "Permissions-Policy"), [
+			"camera=(), microphone=(), geolocation=(), payment=(), usb=()",
+		]);
+	});
+
+	it("keeps the caching headers", () => {
+		assert.deepEqual(headerValues(yaml, "Cache-Control"), [
+			"public, max-age=31536000, immutable",
+			"public, max-age=31536000, immutable",
+			"max-age=0, s-maxage=600, must-revalidate",
+		]);
+	});
+});
+
+describe("buildCustomRules", () => {
+	const legacyRedirects: SiteRedirect[] = [
+		{ source: "/products.html", target: "/en/products", status: "301" },
+		{ source: "/catalog.pdf", target: "https://example.com/catalog.pdf", status: "302" },
+	];
+	const rules = buildCustomRules({ legacyRedirects });
+	const countryCount = Object.keys(COUNTRY_LOCALES).length;
+
+	it("checks legacy redirects first", () => {
+		assert.deepEqual(rules.slice(0, 2), legacyRedirects);
+	});
+
+	it("redirects the root by country before the default locale", () => {
+		const countryRules = rules.slice(2, 2 + countryCount);
+		assert.deepEqual(
+			countryRules,
+			Object.entries(COUNTRY_LOCALES).map(([country, locale]) => ({
+				source: "/",
+				target: `/${locale}/home`,
+				status: "302",
+				condition: `<${country}>`,
+			}))
+		);
+		assert.deepEqual(rules[2 + countryCount], { source: "/", target: "/en/home", status: "302" });
+	});
+
+	it("never redirects the root permanently", () => {
+		const rootRules = rules.filter((rule) => rule.source === "/");
+		assert.equal(rootRules.length, countryCount + 1);
+		assert.ok(rootRules.every((rule) => rule.status === "302"));
+	});
+
+	it("sends the visitor's country to its locale", () => {
+		assert.equal(rules.find((rule) => rule.condition === "<KR>")?.target, "/ko/home");
+	});
+});
+
+describe("loadLegacyRedirects", () => {
+	let dir: string;
+	before(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "legacy-redirects-"));
+	});
+	after(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	function writeRedirectsFile(redirects: unknown): string {
+		const file = path.join(dir, "legacy-redirects.json");
+		fs.writeFileSync(file, JSON.stringify(redirects));
+		return file;
+	}
+
+	it("defaults the status to 301", () => {
+		const file = writeRedirectsFile([{ source: "/old", target: "/en/new" }]);
+		assert.deepEqual(loadLegacyRedirects(file), [
+			{ source: "/old", target: "/en/new", status: "301" },
+		]);
+	});
+
+	it("rejects a status other than 301 or 302", () => {
+		const file = writeRedirectsFile([{ source: "/old", target: "/en/new", status: "200" }]);
+		assert.throws(() => loadLegacyRedirects(file), /status must be "301" or "302"/);
+	});
+
+	it("rejects a missing source", () => {
+		const file = writeRedirectsFile([{ target: "/en/new" }]);
+		assert.throws(() => loadLegacyRedirects(file), /source must be a path/);
+	});
+
+	it("rejects a missing target", () => {
+		const file = writeRedirectsFile([{ source: "/old" }]);
+		assert.throws(() => loadLegacyRedirects(file), /target must be a path or an https:\/\/ URL/);
+	});
+
+	it("rejects a source the generated rules own", () => {
+		for (const source of ["/", "/es", "/zh/"]) {
+			const file = writeRedirectsFile([{ source, target: "/en/new" }]);
+			assert.throws(() => loadLegacyRedirects(file), /is redirected to its locale's home page/);
+		}
+	});
+
+	it("rejects a source listed twice", () => {
+		const file = writeRedirectsFile([
+			{ source: "/old", target: "/en/new" },
+			{ source: "/old", target: "/en/other" },
+		]);
+		assert.throws(() => loadLegacyRedirects(file), /redirects \/old more than once/);
+	});
+});